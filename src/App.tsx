@@ -1,17 +1,59 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
+import { BrowserRouter as Router, Routes, Route, Outlet } from 'react-router-dom'
 import { BankAssignment } from './components/BankAssignment'
+import { StaleClaimsPanel } from './components/StaleClaimsPanel'
+import { ReportsScreen } from './components/ReportsScreen'
+import { QuarantinePanel } from './components/QuarantinePanel'
+import { Dashboard } from './components/Dashboard'
+import { ExportScreen } from './components/ExportScreen'
+import { ImportWizard } from './components/ImportWizard'
+import { DuplicatesScreen } from './components/DuplicatesScreen'
+import { BranchSelfService } from './components/BranchSelfService'
+import { ReconciliationScreen } from './components/ReconciliationScreen'
+import { SessionProvider } from './components/SessionProvider'
+import { RequireRole } from './components/RequireRole'
+import { UserBar } from './components/UserBar'
+
+function Page() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container py-8">
+        <h1 className="text-3xl font-bold text-center mb-8">Bank Assignment System</h1>
+        <Outlet />
+      </div>
+    </div>
+  )
+}
+
+function SignedInArea() {
+  return (
+    <SessionProvider>
+      <UserBar />
+      <Outlet />
+    </SessionProvider>
+  )
+}
 
 function App() {
   return (
     <Router>
-      <div className="min-h-screen bg-background">
-        <div className="container py-8">
-          <h1 className="text-3xl font-bold text-center mb-8">Bank Assignment System</h1>
-          <Routes>
-            <Route path="/" element={<BankAssignment />} />
-          </Routes>
-        </div>
-      </div>
+      <Routes>
+        <Route element={<Page />}>
+          {/* Branch managers reach this from the letter's QR code; the signed link is their credential,
+              so it stays outside the sign-in tree and works even when sign-in is misconfigured. */}
+          <Route path="/bank-update" element={<BranchSelfService />} />
+          <Route element={<SignedInArea />}>
+            <Route path="/" element={<RequireRole roles={['caller']}><BankAssignment /></RequireRole>} />
+            <Route path="/claims" element={<RequireRole roles={['supervisor']}><StaleClaimsPanel /></RequireRole>} />
+            <Route path="/reports" element={<RequireRole roles={['reviewer', 'supervisor']}><ReportsScreen /></RequireRole>} />
+            <Route path="/quarantine" element={<RequireRole roles={['supervisor']}><QuarantinePanel /></RequireRole>} />
+            <Route path="/dashboard" element={<RequireRole roles={['reviewer', 'supervisor']}><Dashboard /></RequireRole>} />
+            <Route path="/export" element={<RequireRole roles={['reviewer', 'supervisor']}><ExportScreen /></RequireRole>} />
+            <Route path="/import" element={<RequireRole roles={['admin']}><ImportWizard /></RequireRole>} />
+            <Route path="/duplicates" element={<RequireRole roles={['reviewer', 'supervisor']}><DuplicatesScreen /></RequireRole>} />
+            <Route path="/reconciliation" element={<RequireRole roles={['reviewer']}><ReconciliationScreen /></RequireRole>} />
+          </Route>
+        </Route>
+      </Routes>
     </Router>
   )
 }
@@ -0,0 +1,52 @@
+import { Button } from './ui/button';
+import { NEAR_IDENTICAL_SIMILARITY, addressSimilarity, diffAddresses, type DiffPart } from '../lib/addressSimilarity';
+
+const PART_STYLES: Record<DiffPart['kind'], string> = {
+  same: '',
+  removed: 'bg-red-100 text-red-800 line-through',
+  added: 'bg-green-100 text-green-800',
+};
+
+function DiffSide({ title, parts }: { title: string; parts: DiffPart[] }) {
+  return (
+    <div>
+      <div className="font-semibold mb-1">{title}</div>
+      <p className="leading-relaxed">
+        {parts.map((part, index) => (
+          <span key={index} className={`${PART_STYLES[part.kind]} rounded px-0.5 mr-1`}>{part.text}</span>
+        ))}
+      </p>
+    </div>
+  );
+}
+
+// Side-by-side word diff of the address on record and the one being entered.
+export function AddressDiff({ original, updated, onNoChange }: {
+  original: string;
+  updated: string;
+  // Offered when the two are near-identical, to record "no change in address" instead.
+  onNoChange?: () => void;
+}) {
+  const { left, right } = diffAddresses(original, updated);
+  const similarity = addressSimilarity(original, updated);
+
+  return (
+    <div className="border rounded px-4 py-3 text-sm space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <DiffSide title="On Record" parts={left} />
+        <DiffSide title="Updated" parts={right} />
+      </div>
+      <div>Similarity: <span className="font-semibold">{Math.round(similarity * 100)}%</span></div>
+      {similarity >= NEAR_IDENTICAL_SIMILARITY && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-3 py-2 rounded flex justify-between items-center gap-4">
+          <span>This is nearly the same address. If only the spelling or abbreviations differ, record no change instead.</span>
+          {onNoChange && (
+            <Button type="button" variant="outline" size="sm" onClick={onNoChange}>
+              No Change in Address
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
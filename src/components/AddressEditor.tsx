@@ -0,0 +1,89 @@
+import { useEffect } from 'react';
+import { useFormContext, useWatch } from 'react-hook-form';
+import { FormControl, FormField, FormItem, FormLabel } from './ui/form';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { INDIAN_STATES } from '../lib/regions';
+import { lookupPinCode } from '../lib/pinCode';
+import type { AddressFormValues } from '../lib/address';
+
+const TEXT_PARTS: { key: Exclude<keyof AddressFormValues, 'state'>; label: string; placeholder: string }[] = [
+  { key: 'line', label: 'Building / Line', placeholder: 'e.g. SCO 12/3, First Floor (Near Bus Stand)' },
+  { key: 'locality', label: 'Locality', placeholder: 'e.g. Sector 14' },
+  { key: 'city', label: 'City', placeholder: 'e.g. Gurugram' },
+  { key: 'district', label: 'District', placeholder: 'e.g. Gurugram' },
+  { key: 'pinCode', label: 'PIN Code', placeholder: '6-digit PIN' },
+];
+
+// Structured address fields for the form field `name` (an AddressFormValues object).
+// A known PIN code fills in the state and district when they are still empty.
+export function AddressEditor({ name, label }: { name: string; label: string }) {
+  const form = useFormContext();
+  const pinCode: string = useWatch({ control: form.control, name: `${name}.pinCode` }) ?? '';
+
+  useEffect(() => {
+    const location = lookupPinCode(pinCode);
+    if (!location) return;
+    if (location.states.length === 1 && !form.getValues(`${name}.state`)) {
+      form.setValue(`${name}.state`, location.states[0], { shouldValidate: true });
+    }
+    if (location.district && !form.getValues(`${name}.district`)) {
+      form.setValue(`${name}.district`, location.district);
+    }
+  }, [pinCode]);
+
+  const renderText = ({ key, label, placeholder }: (typeof TEXT_PARTS)[number]) => (
+    <FormField
+      key={key}
+      control={form.control}
+      name={`${name}.${key}`}
+      render={({ field, fieldState }) => (
+        <FormItem className={key === 'line' ? 'col-span-2' : ''}>
+          <FormLabel className="text-sm">{label}</FormLabel>
+          <FormControl>
+            <Input 
+              placeholder={placeholder}
+              {...field}
+              inputMode={key === 'pinCode' ? 'numeric' : undefined}
+              className={`${fieldState.error ? "border-red-500" : ""} h-10`}
+            />
+          </FormControl>
+          {fieldState.error && (
+            <p className="text-sm text-red-500 mt-1.5">{fieldState.error.message}</p>
+          )}
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="font-medium mb-2">{label}</legend>
+      <div className="grid grid-cols-2 gap-4">
+        {TEXT_PARTS.slice(0, 4).map(renderText)}
+        <FormField
+          control={form.control}
+          name={`${name}.state`}
+          render={({ field, fieldState }) => (
+            <FormItem>
+              <FormLabel className="text-sm">State</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value || undefined}>
+                <FormControl>
+                  <SelectTrigger className={`h-10 ${fieldState.error ? "border-red-500" : ""}`}>
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent className="bg-white max-h-72">
+                  {INDIAN_STATES.map(state => (
+                    <SelectItem key={state.name} value={state.name}>{state.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        {renderText(TEXT_PARTS[4])}
+      </div>
+    </fieldset>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
-import axios from 'axios';
 import { useForm } from 'react-hook-form';
+import { Link } from 'react-router-dom';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
@@ -9,46 +9,44 @@ import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Textarea } from './ui/textarea';
 import { Button } from './ui/button';
-import { PDFDownloadLink, pdf } from '@react-pdf/renderer';
+import { PDFDownloadLink } from '@react-pdf/renderer';
 import { BankLetterPDF } from './BankLetterPDF';
-import { QRCodeGenerator, generateQRCodeData } from './QRCodeGenerator';
-import QRCode from 'qrcode';
-import type { Bank } from '../types/bank';
+import { QRCodeGenerator } from './QRCodeGenerator';
+import { BulkLetterExport } from './BulkLetterExport';
+import { MergedLetterExport } from './MergedLetterExport';
+import { LetterTemplatePicker } from './LetterTemplatePicker';
+import { AddressEditor } from './AddressEditor';
+import { AddressDiff } from './AddressDiff';
+import { CoordinatesEditor } from './CoordinatesEditor';
+import { SyncIndicator } from './SyncIndicator';
+import { useSession } from './SessionProvider';
+import { PHONE_RESPONSES, RESPONSE_TYPES, type Bank } from '../types/bank';
+import { BankValidationError, bankRepository } from '../lib/repository';
+import { claimNextBank } from '../lib/claiming';
+import { isDuplicate } from '../lib/duplicates';
+import { loadCallbackPolicy, recordCall } from '../lib/callbacks';
+import { addressSimilarity } from '../lib/addressSimilarity';
+import { EMPTY_ADDRESS, addressPartsFormSchema, formatAddress, isAddressBlank, missingAddressPart, toAddressParts } from '../lib/address';
+import { EMPTY_COORDINATES, coordinatesFormSchema, fromCoordinatesForm } from '../lib/coordinates';
+import { PHONE_KIND_LABELS, banksWithPhone, dialledNumberProblem, dialledNumberToStore, isParsedPhone, parsePhoneNumber } from '../lib/phone';
+import { bankCodeOf, bankForIfsc, ifscMatchesBank, ifscProblems, normalizeIfsc, validateIfsc } from '../lib/ifsc';
+import { HEARTBEAT_INTERVAL_MS, LeaseLostError, renewLease } from '../lib/lease';
+import { loadQueueRules, pickFromQueue, rankBanks, scoreBank } from '../lib/assignmentQueue';
+import { LANGUAGE_NAMES, detectState, type LanguageCode } from '../lib/regions';
+import { getQuarantinedRows, subscribeToQuarantine } from '../lib/quarantine';
+import { SubmissionConflictError, submitThroughOutbox } from '../lib/submissionOutbox';
+import { loadLetterSettings, saveLetterSettings, type LetterSettings } from '../lib/letterTemplates';
 
 const formSchema = z.object({
-  phoneNumber: z.string()
-    .min(10, "Phone number must be at least 10 digits")
-    .max(15, "Phone number must not exceed 15 digits")
-    .regex(/^[0-9]+$/, "Phone number must contain only digits")
-    .refine((val) => !val.startsWith('0'), "Phone number should not start with 0"),
+  phoneNumber: z.string().trim().min(1, "Phone number is required"),
   
-  phoneResponse: z.enum([
-    'toll_free',
-    'registered_only',
-    'invalid_number',
-    'no_response',
-    'switched_off',
-    'number_not_found'
-  ], {
+  phoneResponse: z.enum(PHONE_RESPONSES, {
     required_error: "Please select a phone response type"
   }),
 
-  response: z.enum([
-    'address_change',
-    'branch_name_change',
-    'no_change_in_address',
-    'bank_shift'
-  ]).optional(),
+  response: z.enum(RESPONSE_TYPES).optional(),
   
-  updateAddress: z.string()
-    .min(10, "Address must be at least 10 characters")
-    .max(200, "Address must not exceed 200 characters")
-    .regex(/^[a-zA-Z0-9\s,.-]+$/, "Address can only contain letters, numbers, spaces, commas, dots, and hyphens")
-    .optional()
-    .refine((val) => {
-      if (!val) return true;
-      return val.trim().split(' ').length >= 3;
-    }, "Address should contain at least 3 words"),
+  updateAddressParts: addressPartsFormSchema,
   
   updatedBranchName: z.string()
     .min(3, "Branch name must be at least 3 characters")
@@ -60,49 +58,85 @@ const formSchema = z.object({
       return /^[A-Z]/.test(val);
     }, "Branch name should start with a capital letter"),
   
+  coordinates: coordinatesFormSchema,
+
+  correctedIfsc: z.string()
+    .optional()
+    .transform(val => (val ? normalizeIfsc(val) : val))
+    .superRefine((val, ctx) => {
+      const problem = val ? validateIfsc(val) : null;
+      if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }),
+
   remarks: z.string()
     .max(500, "Remarks must not exceed 500 characters")
     .optional()
-    .transform(val => val || "")
-});
+    .transform(val => val || ""),
 
-const SHEETY_API = 'https://api.sheety.co/632604ca09353483222880568eb0ebe2/bankAddressForCalling/banks';
+  callbackAt: z.string()
+    .optional()
+    .refine((val) => !val || new Date(val).getTime() > Date.now(), "Callback time must be in the future")
+})
+  .superRefine((values, ctx) => {
+    const problem = dialledNumberProblem(values.phoneNumber, values.phoneResponse);
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem, path: ['phoneNumber'] });
+  })
+  .transform(values => ({ ...values, phoneNumber: dialledNumberToStore(values.phoneNumber, values.phoneResponse) }));
 
 export function BankAssignment() {
-  const [userName, setUserName] = useState<string>(() => localStorage.getItem('userName') || '');
+  // The route guard guarantees a signed-in caller; their login id is what the sheet records.
+  const { user } = useSession();
+  const userName = user?.id ?? '';
+  const callerLanguages: LanguageCode[] = user?.languages ?? ['en'];
+  const [queueReasons, setQueueReasons] = useState<string[]>([]);
   const [currentBank, setCurrentBank] = useState<Bank | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Shown on the next bank after a submission that could only be saved on this device.
+  const [notice, setNotice] = useState<string | null>(null);
   const [qrCodeUrl, setQrCodeUrl] = useState<string>('');
   const [allBanks, setAllBanks] = useState<Bank[]>([]);
-  const [generatingPDFs, setGeneratingPDFs] = useState(false);
+  const [letterSettings, setLetterSettings] = useState<LetterSettings>(loadLetterSettings);
+  const [quarantinedCount, setQuarantinedCount] = useState(() => getQuarantinedRows().length);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       phoneNumber: '',
+      updateAddressParts: EMPTY_ADDRESS,
+      coordinates: EMPTY_COORDINATES,
+      correctedIfsc: '',
       remarks: '',
+      callbackAt: '',
     },
     mode: "onChange"
   });
 
+  const phoneResult = parsePhoneNumber(form.watch('phoneNumber') ?? '');
+  const parsedPhone = isParsedPhone(phoneResult) ? phoneResult : null;
+  const duplicatePhoneBanks = parsedPhone && currentBank ? banksWithPhone(allBanks, parsedPhone, currentBank) : [];
+  // A merged duplicate gets no letter of its own; the bank that was kept does.
+  const letterBanks = allBanks.filter(bank => !isDuplicate(bank));
+
+  // A toll-free number almost always means the toll_free response, so suggest it.
+  useEffect(() => {
+    if (parsedPhone?.kind === 'toll_free' && !form.getValues('phoneResponse')) {
+      form.setValue('phoneResponse', 'toll_free', { shouldValidate: true });
+    }
+  }, [parsedPhone?.kind]);
+
   const fetchUnassignedBank = async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await axios.get(SHEETY_API);
-      
-      const banks = response.data.banks as Bank[];
-      const unassignedBanks = banks.filter(bank => !bank.userName);
-      
-      if (unassignedBanks.length > 0) {
-        const randomIndex = Math.floor(Math.random() * unassignedBanks.length);
-        const randomBank = unassignedBanks[randomIndex];
-        
-         await axios.put(`${SHEETY_API}/${randomBank.id}`, {
-          bank: { ...randomBank, userName },
-        });
-        setCurrentBank(randomBank);
+      const caller = { userName, languages: callerLanguages };
+      const rules = loadQueueRules();
+      const claimedBank = await claimNextBank(bankRepository, userName, {
+        pick: candidates => pickFromQueue(rankBanks(candidates, rules, caller))?.bank,
+      });
+      if (claimedBank) {
+        setCurrentBank(claimedBank);
+        setQueueReasons(scoreBank(claimedBank, rules, caller)?.reasons ?? []);
       } else {
         setError("No unassigned banks available at the moment.");
       }
@@ -117,8 +151,7 @@ export function BankAssignment() {
     try {
       setLoading(true);
       setError(null);
-      const response = await axios.get(SHEETY_API);
-      setAllBanks(response.data.banks);
+      setAllBanks(await bankRepository.list());
     } catch (error) {
       setError("Failed to fetch all banks. Please try again.");
     } finally {
@@ -126,65 +159,35 @@ export function BankAssignment() {
     }
   };
 
-  const generateQRCodeForBank = async (bank: Bank): Promise<string> => {
-    try {
-      const qrData = generateQRCodeData(bank);
-      return await QRCode.toDataURL(qrData, {
-        width: 300,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#ffffff',
-        },
-      });
-    } catch (err) {
-      console.error('Error generating QR code:', err);
-      return '';
-    }
-  };
-
-  const handleGenerateAllPDFs = async () => {
-    setGeneratingPDFs(true);
-    try {
-      for (const bank of allBanks) {
-        const qrCodeUrl = await generateQRCodeForBank(bank);
-        if (qrCodeUrl) {
-          const doc = <BankLetterPDF bank={bank} qrCodeUrl={qrCodeUrl} />;
-          const blob = await pdf(doc).toBlob();
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = `${bank.bankName.replace(/\s+/g, '_')}_${bank.branchName.replace(/\s+/g, '_')}_letter.pdf`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-    } catch (error) {
-      setError("Failed to generate PDFs. Please try again.");
-    } finally {
-      setGeneratingPDFs(false);
-    }
-  };
-
   useEffect(() => {
     fetchAllBanks();
   }, []);
 
+  useEffect(() => subscribeToQuarantine(rows => setQuarantinedCount(rows.length)), []);
+
   useEffect(() => {
     if (userName && !currentBank && !loading) {
       fetchUnassignedBank();
     }
   }, [userName, currentBank, loading]);
 
-  const handleNameSubmit = (name: string) => {
-    if (name.trim()) {
-      localStorage.setItem('userName', name.trim());
-      setUserName(name.trim());
-    }
-  };
+  // Keep our lease alive while the bank is open; a closed tab lets it expire.
+  useEffect(() => {
+    if (!currentBank) return;
+    const heartbeat = setInterval(async () => {
+      try {
+        await renewLease(bankRepository, currentBank);
+      } catch (error) {
+        if (error instanceof LeaseLostError) {
+          clearInterval(heartbeat);
+          setCurrentBank(null);
+          form.reset();
+          setError("Your claim on this bank expired and it was reassigned. Please take the next one.");
+        }
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(heartbeat);
+  }, [currentBank]);
 
   const handleCancel = async () => {
     if (currentBank) {
@@ -192,17 +195,7 @@ export function BankAssignment() {
         setLoading(true);
         setError(null);
         
-        await axios.put(`${SHEETY_API}/${currentBank.id}`, {
-          bank: {
-            ...currentBank,
-            userName: "",
-            phoneNumber: "",
-            response: "",
-            updateAddress: "",
-            updatedBranchName: "",
-            remarks: ""
-          }
-        });
+        await bankRepository.release(currentBank.id, currentBank.claimToken ?? '');
         
         await new Promise(resolve => setTimeout(resolve, 1000));
         
@@ -225,89 +218,78 @@ export function BankAssignment() {
       setLoading(true);
       setError(null);
       
-      // Check if response type is required
+      const { callbackAt, updateAddressParts, coordinates, ...fields } = values;
+
+      // Check if response type is required; a booked callback defers it to the next call
       const successfulResponses = ['toll_free', 'registered_only'];
-      if (successfulResponses.includes(values.phoneResponse) && !values.response) {
+      if (!callbackAt && successfulResponses.includes(values.phoneResponse) && !values.response) {
         setError("Response type is required for successful calls");
         return;
       }
 
       // Validate required fields based on response type
-      if (values.response === 'address_change' && !values.updateAddress) {
-        setError("Updated address is required for address change");
+      const needsAddress = values.response === 'address_change' || values.response === 'bank_shift';
+      if (needsAddress && missingAddressPart(updateAddressParts)) {
+        setError(`Updated address is incomplete: ${missingAddressPart(updateAddressParts)}`);
         return;
       }
       if (values.response === 'branch_name_change' && !values.updatedBranchName) {
         setError("Updated branch name is required for branch name change");
         return;
       }
-      if (values.response === 'bank_shift' && !values.updateAddress) {
-        setError("Updated address is required for bank shift");
+      if (values.correctedIfsc && ifscMatchesBank(values.correctedIfsc, currentBank.bankName) === false) {
+        setError(`Corrected IFSC belongs to ${bankForIfsc(values.correctedIfsc).name}, not ${currentBank.bankName}`);
         return;
       }
 
-      await axios.put(`${SHEETY_API}/${currentBank.id}`, {
-        bank: {
-          ...currentBank,
-          ...values,
+      const { changes, final } = recordCall(currentBank, {
+        attempt: {
+          caller: userName,
+          at: new Date().toISOString(),
+          phoneNumber: values.phoneNumber,
+          outcome: values.phoneResponse,
+          remarks: values.remarks || undefined,
         },
-      });
-      
+        callbackAt: callbackAt ? new Date(callbackAt) : undefined,
+      }, loadCallbackPolicy());
+      const updateAddress = formatAddress(updateAddressParts);
+      const address = needsAddress && !isAddressBlank(updateAddressParts)
+        ? {
+            updateAddress,
+            updateAddressParts: toAddressParts(updateAddressParts),
+            addressSimilarity: addressSimilarity(currentBank.address, updateAddress),
+          }
+        : {};
+      const location = fromCoordinatesForm(coordinates) ?? {};
+      // Saved on this device first; if the sheet can't be reached it syncs in the background.
+      const result = await submitThroughOutbox(bankRepository, currentBank, final ? { ...fields, ...address, ...location, ...changes } : changes);
+      setNotice(result === 'queued'
+        ? `Your result for ${currentBank.bankName} - ${currentBank.branchName} is saved on this device and will sync when the sheet can be reached.`
+        : null);
+
       setCurrentBank(null);
       form.reset();
       fetchUnassignedBank();
     } catch (error) {
-      setError("Failed to update bank information. Please try again.");
+      setError(error instanceof BankValidationError
+        ? error.message
+        : error instanceof SubmissionConflictError
+          ? "This bank was reassigned or updated by someone else while you were on the call, so your result was not saved."
+          : "Failed to update bank information. Please try again.");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleNameChange = () => {
-    const newName = window.prompt("Enter new name:");
-    if (newName?.trim()) {
-      localStorage.setItem('userName', newName.trim());
-      setUserName(newName.trim());
-    }
+  const handleNoAddressChange = () => {
+    form.setValue('response', 'no_change_in_address', { shouldValidate: true });
+    form.setValue('updateAddressParts', EMPTY_ADDRESS);
   };
 
-  if (!userName) {
-    return (
-      <Card className="w-[400px] mx-auto mt-8">
-        <CardHeader>
-          <CardTitle>Enter Your Name</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <Form {...form}>
-            <form onSubmit={(e) => {
-              e.preventDefault();
-              const nameInput = e.currentTarget.querySelector('input');
-              if (nameInput?.value) {
-                handleNameSubmit(nameInput.value);
-              }
-            }}>
-              <FormField
-                name="userName"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Name</FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="Enter your name" 
-                        {...field} 
-                        autoFocus
-                      />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
-              <Button type="submit" className="w-full mt-4">Start Working</Button>
-            </form>
-          </Form>
-        </CardContent>
-      </Card>
-    );
-  }
+  const handleLetterSettingsChange = (settings: LetterSettings) => {
+    saveLetterSettings(settings);
+    setLetterSettings(settings);
+  };
 
   if (!currentBank) {
     return (
@@ -318,6 +300,7 @@ export function BankAssignment() {
           </CardTitle>
         </CardHeader>
         <CardContent>
+          <SyncIndicator />
           {error ? (
             <>
               <p className="text-red-500 mb-4">{error}</p>
@@ -339,32 +322,35 @@ export function BankAssignment() {
         <CardTitle className="flex justify-between items-center">
           <span>Bank Details</span>
           <div className="flex items-center gap-4">
-            <Button 
-              variant="outline"
-              disabled={generatingPDFs}
-              onClick={handleGenerateAllPDFs}
-              className="min-w-[200px]"
-            >
-              {generatingPDFs ? 'Generating PDFs...' : 'Generate Individual PDFs for All Banks'}
-            </Button>
-            <span className="text-sm font-normal">Working as: {userName}</span>
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={handleNameChange}
-              className="text-xs"
-            >
-              Change Name
-            </Button>
+            <div className="flex flex-col gap-2">
+              <BulkLetterExport banks={letterBanks} settings={letterSettings} />
+              <MergedLetterExport banks={letterBanks} settings={letterSettings} />
+            </div>
+            <span className="text-sm font-normal">
+              Working as: {user?.name}
+              {callerLanguages.length > 0 && ` (${callerLanguages.map(language => LANGUAGE_NAMES[language]).join(', ')})`}
+            </span>
           </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
+        <SyncIndicator />
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
             {error}
           </div>
         )}
+        {notice && (
+          <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded mb-4 text-sm">
+            {notice}
+          </div>
+        )}
+        {quarantinedCount > 0 && (
+          <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded mb-4 text-sm">
+            {quarantinedCount} malformed row{quarantinedCount === 1 ? ' was' : 's were'} skipped.{' '}
+            <Link to="/quarantine" className="underline">Review quarantined rows</Link>
+          </div>
+        )}
         
         <div className="space-y-6">
           <div className="grid grid-cols-2 gap-4">
@@ -385,7 +371,12 @@ export function BankAssignment() {
             <div className="space-y-2">
               <div className="flex">
                 <span className="w-24 font-semibold">IFSC:</span>
-                <span>{currentBank.ifscCode}</span>
+                <span>
+                  {currentBank.ifscCode}
+                  {ifscProblems(currentBank.ifscCode, currentBank.bankName).map(problem => (
+                    <span key={problem} className="block text-xs text-red-600">{problem}</span>
+                  ))}
+                </span>
               </div>
               <div className="flex">
                 <span className="w-24 font-semibold">Address:</span>
@@ -394,6 +385,41 @@ export function BankAssignment() {
             </div>
           </div>
 
+          {currentBank.callHistory && currentBank.callHistory.length > 0 && (
+            <div className="border rounded px-4 py-3 text-sm">
+              <span className="font-semibold">Previous Attempts:</span>
+              <ul className="mt-1 space-y-1">
+                {currentBank.callHistory.map(attempt => (
+                  <li key={attempt.at}>
+                    {new Date(attempt.at).toLocaleString()} - {attempt.caller} - {attempt.outcome.replace(/_/g, ' ')}
+                    {attempt.phoneNumber && ` (${attempt.phoneNumber})`}
+                    {attempt.remarks && <span className="block text-gray-600 ml-4">{attempt.remarks}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {queueReasons.length > 0 && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-900 px-4 py-3 rounded text-sm">
+              <span className="font-semibold">Why this bank:</span>
+              <ul className="list-disc ml-5 mt-1">
+                {queueReasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="border-t pt-4">
+            <LetterTemplatePicker
+              bank={currentBank}
+              qrCodeUrl={qrCodeUrl}
+              settings={letterSettings}
+              onChange={handleLetterSettingsChange}
+            />
+          </div>
+
           <div className="flex justify-end gap-4 border-t pt-4">
             <QRCodeGenerator 
               bank={currentBank}
@@ -405,6 +431,7 @@ export function BankAssignment() {
                   <BankLetterPDF 
                     bank={currentBank}
                     qrCodeUrl={qrCodeUrl}
+                    settings={letterSettings}
                   />
                 }
                 fileName={`${currentBank.bankName.replace(/\s+/g, '_')}_letter.pdf`}
@@ -439,6 +466,18 @@ export function BankAssignment() {
                       className={`${fieldState.error ? "border-red-500" : ""} h-10`}
                     />
                   </FormControl>
+                  {parsedPhone && (
+                    <p className="text-xs text-gray-500">
+                      {PHONE_KIND_LABELS[parsedPhone.kind]}: {parsedPhone.display}
+                    </p>
+                  )}
+                  {duplicatePhoneBanks.length > 0 && (
+                    <p className="text-sm text-yellow-700">
+                      This number is already recorded for {duplicatePhoneBanks
+                        .map(bank => `${bank.bankName} - ${bank.branchName}`)
+                        .join(', ')}.
+                    </p>
+                  )}
                   {fieldState.error && (
                     <p className="text-sm text-red-500 mt-1.5">{fieldState.error.message}</p>
                   )}
@@ -452,7 +491,7 @@ export function BankAssignment() {
               render={({ field, fieldState }) => (
                 <FormItem className="space-y-3">
                   <FormLabel className="font-medium">Phone Response</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger className={`bg-blue-50 border-blue-200 focus:ring-blue-500 hover:bg-blue-100 h-10 ${fieldState.error ? "border-red-500" : ""}`}>
                         <SelectValue placeholder="Select phone response" className="text-blue-900" />
@@ -482,7 +521,7 @@ export function BankAssignment() {
                   <FormLabel className="font-medium">
                     Response Type {form.watch('phoneResponse') === 'toll_free' || form.watch('phoneResponse') === 'registered_only' ? '(Required)' : '(Optional)'}
                   </FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger className={`bg-blue-50 border-blue-200 focus:ring-blue-500 hover:bg-blue-100 h-10 ${fieldState.error ? "border-red-500" : ""}`}>
                         <SelectValue placeholder="Select response type" className="text-blue-900" />
@@ -503,47 +542,20 @@ export function BankAssignment() {
             />
 
             {(form.watch('response') === 'address_change') && (
-              <FormField
-                control={form.control}
-                name="updateAddress"
-                render={({ field, fieldState }) => (
-                  <FormItem>
-                    <FormLabel className="font-medium">Correct Address</FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="Enter the correct address" 
-                        {...field} 
-                        className={`${fieldState.error ? "border-red-500" : ""} h-10`}
-                      />
-                    </FormControl>
-                    {fieldState.error && (
-                      <p className="text-sm text-red-500 mt-1.5">{fieldState.error.message}</p>
-                    )}
-                  </FormItem>
+              <>
+                <AddressEditor name="updateAddressParts" label="Correct Address" />
+                {!isAddressBlank(form.watch('updateAddressParts')) && (
+                  <AddressDiff
+                    original={currentBank.address}
+                    updated={formatAddress(form.watch('updateAddressParts'))}
+                    onNoChange={handleNoAddressChange}
+                  />
                 )}
-              />
+              </>
             )}
 
             {(form.watch('response') === 'bank_shift') && (
-              <FormField
-                control={form.control}
-                name="updateAddress"
-                render={({ field, fieldState }) => (
-                  <FormItem>
-                    <FormLabel className="font-medium">New Location Address</FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="Enter the new location address" 
-                        {...field} 
-                        className={`${fieldState.error ? "border-red-500" : ""} h-10`}
-                      />
-                    </FormControl>
-                    {fieldState.error && (
-                      <p className="text-sm text-red-500 mt-1.5">{fieldState.error.message}</p>
-                    )}
-                  </FormItem>
-                )}
-              />
+              <AddressEditor name="updateAddressParts" label="New Location Address" />
             )}
 
             {(form.watch('response') === 'branch_name_change') && (
@@ -568,6 +580,37 @@ export function BankAssignment() {
               />
             )}
 
+            <CoordinatesEditor
+              name="coordinates"
+              address={form.watch('updateAddressParts.line') ? formatAddress(form.watch('updateAddressParts')) : currentBank.address}
+              state={form.watch('updateAddressParts.state') || detectState(currentBank.address)?.name}
+            />
+
+            <FormField
+              control={form.control}
+              name="correctedIfsc"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel className="font-medium">Corrected IFSC (Optional)</FormLabel>
+                  <FormControl>
+                    <Input 
+                      placeholder="Enter the IFSC the branch confirms, if different" 
+                      {...field} 
+                      className={`${fieldState.error ? "border-red-500" : ""} h-10 uppercase`}
+                    />
+                  </FormControl>
+                  {field.value && !fieldState.error && (
+                    <p className="text-xs text-gray-500">
+                      {bankForIfsc(field.value)?.name ?? `Bank code ${bankCodeOf(field.value)} is not in the bank-code table`}
+                    </p>
+                  )}
+                  {fieldState.error && (
+                    <p className="text-sm text-red-500 mt-1.5">{fieldState.error.message}</p>
+                  )}
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="remarks"
@@ -588,6 +631,29 @@ export function BankAssignment() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="callbackAt"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel className="font-medium">Schedule Callback (Optional)</FormLabel>
+                  <FormControl>
+                    <Input 
+                      type="datetime-local"
+                      {...field} 
+                      className={`${fieldState.error ? "border-red-500" : ""} h-10`}
+                    />
+                  </FormControl>
+                  <p className="text-xs text-gray-500">
+                    The bank goes back into the queue and is offered first once this time comes.
+                  </p>
+                  {fieldState.error && (
+                    <p className="text-sm text-red-500 mt-1.5">{fieldState.error.message}</p>
+                  )}
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-between gap-4 pt-4 border-t">
               <Button type="submit" className="min-w-[200px]" disabled={loading}>
                 Submit and Get Next
@@ -1,5 +1,15 @@
 import { Document, Page, Text, View, StyleSheet, Image } from '@react-pdf/renderer';
 import type { Bank } from '../types/bank';
+import {
+  DEFAULT_LETTER_SETTINGS,
+  QR_CODE_BLOCK,
+  RBI_ADDRESS_BLOCK,
+  fillTemplate,
+  formatLetterDate,
+  type LetterSettings,
+} from '../lib/letterTemplates';
+import { letterPages } from '../lib/letterTranslations';
+import { letterFontFamily } from '../lib/letterFonts';
 
 const styles = StyleSheet.create({
   page: {
@@ -57,52 +67,57 @@ const styles = StyleSheet.create({
 interface BankLetterPDFProps {
   bank: Bank;
   qrCodeUrl: string;
+  settings?: LetterSettings;
+  // Overrides today's date, formatted per `settings.dateFormat`.
   date?: string;
 }
 
-export const BankLetterPDF = ({ bank, qrCodeUrl, date = '17th June 2025' }: BankLetterPDFProps) => (
-  <Document>
-    <Page size="A4" style={styles.page} wrap={false}>
-      <View style={styles.header}>
-        <Text style={styles.date}>Dated: {date}</Text>
-        <View style={styles.addressee}>
-          <Text>To</Text>
-          <Text>The Branch Manager</Text>
-          <Text>{bank.bankName}</Text>
-        </View>
-        <Text>Dear Sir/Madam,</Text>
-      </View>
-
-      <View style={styles.content}>
-        <Text style={styles.paragraph}>
-          We are a partner of Google and are currently in the process of updating bank branch addresses on Google Map. During this process, we noticed that the address listed for your branch, according to the RBI records, appears to be inaccurate or incomplete.
-        </Text>
-
-        <Text style={styles.paragraph}>As per the RBI records, the address is listed as:</Text>
-
-        <View style={styles.address}>
-          <Text>{bank.bankName},</Text>
-          <Text>{bank.address}</Text>
-        </View>
+// The letter's pages: one A4 page per language, so several letters can share a document.
+export const BankLetterPages = ({ bank, qrCodeUrl, settings = DEFAULT_LETTER_SETTINGS, date }: BankLetterPDFProps) => {
+  const letterDate = date ?? formatLetterDate(new Date(), settings.dateFormat);
 
-        <Text style={styles.paragraph}>
-          To ensure the accuracy of our records and to help users easily locate your branch, we kindly request you to share the correct and complete branch address, along with the accurate IFSC code.
-        </Text>
+  return (
+    <>
+      {letterPages(bank, settings.templateId, settings.languageMode).map(({ language, labels, body }) => (
+        <Page key={language} size="A4" style={[styles.page, { fontFamily: letterFontFamily(language) }]} wrap={false}>
+          <View style={styles.header}>
+            <Text style={styles.date}>{labels.dated} {letterDate}</Text>
+            <View style={styles.addressee}>
+              <Text>{labels.to}</Text>
+              <Text>{labels.branchManager}</Text>
+              <Text>{bank.bankName}</Text>
+            </View>
+            <Text>{labels.salutation}</Text>
+          </View>
 
-        <Text style={styles.paragraph}>Please scan the QR code below and share your details, so we can update our database accordingly.</Text>
+          <View style={styles.content}>
+            {body.map((block, index) => {
+              if (block === RBI_ADDRESS_BLOCK) {
+                return (
+                  <View key={index} style={styles.address}>
+                    <Text>{bank.bankName},</Text>
+                    <Text>{bank.address}</Text>
+                  </View>
+                );
+              }
+              if (block === QR_CODE_BLOCK) {
+                return <Image key={index} src={qrCodeUrl} style={styles.qrCode} />;
+              }
+              return <Text key={index} style={styles.paragraph}>{fillTemplate(block, bank, letterDate)}</Text>;
+            })}
+          </View>
 
-        <Image src={qrCodeUrl} style={styles.qrCode} />
+          {/* Remove highlighted box, just show as normal text */}
+          <Text style={styles.paragraph}>{bank.bankName}</Text>
+          <Text style={styles.paragraph}>{bank.address}</Text>
+        </Page>
+      ))}
+    </>
+  );
+};
 
-        <Text style={styles.paragraph}>
-          This effort is aimed at ensuring that the public has access to accurate information, allowing them to access banking facilities smoothly and without confusion.
-        </Text>
-
-        <Text style={styles.paragraph}>Thank you for your cooperation.</Text>
-      </View>
-
-      {/* Remove highlighted box, just show as normal text */}
-      <Text style={styles.paragraph}>{bank.bankName}</Text>
-      <Text style={styles.paragraph}>{bank.address}</Text>
-    </Page>
+export const BankLetterPDF = (props: BankLetterPDFProps) => (
+  <Document>
+    <BankLetterPages {...props} />
   </Document>
-); 
\ No newline at end of file
+);
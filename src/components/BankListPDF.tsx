@@ -1,12 +1,38 @@
 import { Document, Page, Text, View, StyleSheet } from '@react-pdf/renderer';
 import type { Bank } from '../types/bank';
+import { OUTCOMES, OUTCOME_LABELS } from '../lib/outcomes';
+import { countByOutcome, groupByOutcome } from '../lib/reports';
+import { formatCoordinates } from '../lib/coordinates';
 
 const styles = StyleSheet.create({
   page: {
-    padding: 40,
+    paddingTop: 60,
+    paddingBottom: 50,
+    paddingHorizontal: 40,
     fontSize: 10,
     fontFamily: 'Helvetica',
   },
+  runningHeader: {
+    position: 'absolute',
+    top: 20,
+    left: 40,
+    right: 40,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderBottom: '1px solid #ccc',
+    paddingBottom: 4,
+    fontSize: 8,
+    color: '#555',
+  },
+  pageNumber: {
+    position: 'absolute',
+    bottom: 20,
+    left: 40,
+    right: 40,
+    textAlign: 'center',
+    fontSize: 8,
+    color: '#555',
+  },
   header: {
     marginBottom: 20,
     textAlign: 'center',
@@ -15,6 +41,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 10,
   },
+  summary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 20,
+    borderTop: '1px solid black',
+    borderBottom: '1px solid black',
+    paddingVertical: 8,
+  },
+  summaryItem: {
+    width: '33%',
+    paddingVertical: 2,
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontFamily: 'Helvetica-Bold',
+    marginTop: 10,
+    marginBottom: 10,
+  },
   bankSection: {
     marginBottom: 20,
     borderBottom: '1px solid #ccc',
@@ -42,48 +86,94 @@ const styles = StyleSheet.create({
 
 interface BankListPDFProps {
   banks: Bank[];
+  filterDescription?: string;
   date?: string;
 }
 
-export const BankListPDF = ({ banks, date = new Date().toLocaleDateString() }: BankListPDFProps) => (
-  <Document>
-    <Page size="A4" style={styles.page}>
-      <View style={styles.header}>
-        <Text style={styles.title}>Bank Branch Details Report</Text>
-        <Text>Generated on: {date}</Text>
-      </View>
+export const BankListPDF = ({ banks, filterDescription = 'all banks', date = new Date().toLocaleDateString() }: BankListPDFProps) => {
+  const counts = countByOutcome(banks);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        <View style={styles.runningHeader} fixed>
+          <Text>Bank Branch Verification Report - {filterDescription}</Text>
+          <Text>{date}</Text>
+        </View>
+
+        <View style={styles.header}>
+          <Text style={styles.title}>Bank Branch Verification Report</Text>
+          <Text>Filter: {filterDescription}</Text>
+          <Text>Generated on: {date}</Text>
+        </View>
+
+        <View style={styles.summary}>
+          <Text style={styles.summaryItem}>Total: {banks.length}</Text>
+          {OUTCOMES.map(outcome => (
+            <Text key={outcome} style={styles.summaryItem}>{OUTCOME_LABELS[outcome]}: {counts[outcome]}</Text>
+          ))}
+        </View>
 
-      {banks.map((bank, ) => (
-        <View key={bank.id} style={styles.bankSection}>
-          <Text style={styles.bankName}>{bank.bankName} - {bank.branchName}</Text>
-          <View style={styles.bankDetails}>
-            <Text><Text style={styles.label}>UFI:</Text> {bank.ufi}</Text>
-            <Text><Text style={styles.label}>IFSC Code:</Text> {bank.ifscCode}</Text>
-            <Text><Text style={styles.label}>Address:</Text> {bank.address}</Text>
-            {bank.updateAddress && (
-              <Text><Text style={styles.label}>Updated Address:</Text> {bank.updateAddress}</Text>
-            )}
-            {bank.updatedBranchName && (
-              <Text><Text style={styles.label}>Updated Branch Name:</Text> {bank.updatedBranchName}</Text>
-            )}
-            {bank.phoneNumber && (
-              <Text><Text style={styles.label}>Phone Number:</Text> {bank.phoneNumber}</Text>
-            )}
-            {bank.response && (
-              <Text><Text style={styles.label}>Response Type:</Text> {bank.response}</Text>
-            )}
-            {bank.remarks && (
-              <Text><Text style={styles.label}>Remarks:</Text> {bank.remarks}</Text>
-            )}
+        {groupByOutcome(banks).map(group => (
+          <View key={group.outcome}>
+            <Text style={styles.groupTitle} minPresenceAhead={60}>
+              {OUTCOME_LABELS[group.outcome]} ({group.banks.length})
+            </Text>
+            {group.banks.map(bank => (
+              <View key={bank.id} style={styles.bankSection} wrap={false}>
+                <Text style={styles.bankName}>{bank.bankName} - {bank.branchName}</Text>
+                <View style={styles.bankDetails}>
+                  <Text><Text style={styles.label}>UFI:</Text> {bank.ufi}</Text>
+                  <Text><Text style={styles.label}>IFSC Code:</Text> {bank.ifscCode}</Text>
+                  <Text><Text style={styles.label}>Address:</Text> {bank.address}</Text>
+                  {bank.updateAddress && (
+                    <Text><Text style={styles.label}>Updated Address:</Text> {bank.updateAddress}</Text>
+                  )}
+                  {bank.addressSimilarity !== undefined && (
+                    <Text><Text style={styles.label}>Address Similarity:</Text> {Math.round(bank.addressSimilarity * 100)}%</Text>
+                  )}
+                  {bank.updatedBranchName && (
+                    <Text><Text style={styles.label}>Updated Branch Name:</Text> {bank.updatedBranchName}</Text>
+                  )}
+                  {bank.correctedIfsc && (
+                    <Text><Text style={styles.label}>Corrected IFSC:</Text> {bank.correctedIfsc}</Text>
+                  )}
+                  {bank.latitude !== undefined && bank.longitude !== undefined && (
+                    <Text><Text style={styles.label}>Location:</Text> {formatCoordinates({ latitude: bank.latitude, longitude: bank.longitude })}</Text>
+                  )}
+                  {bank.phoneNumber && (
+                    <Text><Text style={styles.label}>Phone Number:</Text> {bank.phoneNumber}</Text>
+                  )}
+                  {bank.phoneResponse && (
+                    <Text><Text style={styles.label}>Phone Response:</Text> {bank.phoneResponse}</Text>
+                  )}
+                  {bank.userName && (
+                    <Text><Text style={styles.label}>Caller:</Text> {bank.userName}</Text>
+                  )}
+                  {bank.verifiedAt && (
+                    <Text><Text style={styles.label}>Verified On:</Text> {new Date(bank.verifiedAt).toLocaleString()}</Text>
+                  )}
+                  {bank.remarks && (
+                    <Text><Text style={styles.label}>Remarks:</Text> {bank.remarks}</Text>
+                  )}
+                </View>
+              </View>
+            ))}
           </View>
+        ))}
+
+        <View style={styles.footer} wrap={false}>
+          <Text>Generated by Lepton Software Export and Research (P) Ltd.</Text>
+          <Text>570, Udyog Vihar, Phase-V, Gurugram, Haryana – 122016</Text>
+          <Text>http://www.leptonsoftware.com</Text>
         </View>
-      ))}
 
-      <View style={styles.footer}>
-        <Text>Generated by Lepton Software Export and Research (P) Ltd.</Text>
-        <Text>570, Udyog Vihar, Phase-V, Gurugram, Haryana – 122016</Text>
-        <Text>http://www.leptonsoftware.com</Text>
-      </View>
-    </Page>
-  </Document>
-); 
\ No newline at end of file
+        <Text
+          style={styles.pageNumber}
+          render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
+          fixed
+        />
+      </Page>
+    </Document>
+  );
+};
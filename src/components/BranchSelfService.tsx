@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useSearchParams } from 'react-router-dom';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel } from './ui/form';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { AddressEditor } from './AddressEditor';
+import type { Bank } from '../types/bank';
+import { bankRepository } from '../lib/repository';
+import { InvalidReferenceError } from '../lib/signedReference';
+import {
+  loadBankForReference,
+  saveBranchResponse,
+  selfServiceDefaults,
+  selfServiceFormSchema,
+  type SelfServiceFormValues,
+} from '../lib/selfService';
+
+// Landing page for the QR code on the letter. The link carries only a signed
+// reference, so the bank shown is the one the letter was printed for.
+export function BranchSelfService() {
+  const [searchParams] = useSearchParams();
+  const reference = searchParams.get('ref');
+  const [bank, setBank] = useState<Bank | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const form = useForm<SelfServiceFormValues>({
+    resolver: zodResolver(selfServiceFormSchema),
+    mode: "onChange"
+  });
+
+  useEffect(() => {
+    const load = async () => {
+      if (!reference) {
+        // Letters printed before links were signed carry the bank details in the URL instead.
+        setError(searchParams.has('bankId')
+          ? "This letter uses an older link that can no longer be accepted. Please contact us for a new letter."
+          : "This link is missing its reference. Please scan the QR code on your letter again.");
+        setLoading(false);
+        return;
+      }
+      try {
+        const found = await loadBankForReference(bankRepository, reference);
+        setBank(found);
+        form.reset(selfServiceDefaults(found));
+      } catch (error) {
+        setError(error instanceof InvalidReferenceError ? error.message : "We could not load your branch details. Please try again later.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [reference]);
+
+  const onSubmit = async (values: SelfServiceFormValues) => {
+    if (!bank) return;
+    try {
+      setLoading(true);
+      setError(null);
+      await saveBranchResponse(bankRepository, bank, values);
+      setSubmitted(true);
+    } catch (error) {
+      setError("Your response could not be saved. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addressConfirmed = form.watch('addressConfirmed');
+
+  if (!bank || submitted) {
+    return (
+      <Card className="w-full max-w-md mx-auto mt-8">
+        <CardHeader>
+          <CardTitle>{submitted ? 'Thank You' : loading ? 'Checking Your Link...' : 'Link Problem'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {submitted && (
+            <p>Your response for {bank?.bankName}, {bank?.branchName} has been recorded. You can scan the QR code again to change it.</p>
+          )}
+          {error && <p className="text-red-500">{error}</p>}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const textField = (name: 'respondentName' | 'contactNumber' | 'branchName' | 'ifscCode', label: string, inputMode?: 'tel') => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel className="font-medium">{label}</FormLabel>
+          <FormControl>
+            <Input {...field} inputMode={inputMode} className={`${fieldState.error ? "border-red-500" : ""} h-10`} />
+          </FormControl>
+          {fieldState.error && (
+            <p className="text-sm text-red-500 mt-1.5">{fieldState.error.message}</p>
+          )}
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Card className="w-full max-w-md mx-auto mt-8">
+      <CardHeader>
+        <CardTitle>Confirm Your Branch Details</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-1 text-sm mb-6">
+          <p className="font-semibold">{bank.bankName}</p>
+          <p>UFI {bank.ufi}</p>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="addressConfirmed"
+              render={({ field, fieldState }) => (
+                <fieldset className="space-y-2">
+                  <legend className="font-medium">Address on RBI records</legend>
+                  <p className="border rounded px-3 py-2 text-sm bg-gray-50">{bank.address}</p>
+                  <label className="flex items-center gap-2 text-sm py-1">
+                    <input type="radio" name={field.name} checked={field.value === 'yes'} onChange={() => field.onChange('yes')} />
+                    This address is correct
+                  </label>
+                  <label className="flex items-center gap-2 text-sm py-1">
+                    <input type="radio" name={field.name} checked={field.value === 'no'} onChange={() => field.onChange('no')} />
+                    It needs correcting
+                  </label>
+                  {fieldState.error && (
+                    <p className="text-sm text-red-500">{fieldState.error.message}</p>
+                  )}
+                </fieldset>
+              )}
+            />
+
+            {addressConfirmed === 'no' && (
+              <AddressEditor name="addressParts" label="Correct Address" />
+            )}
+
+            {textField('branchName', 'Branch Name')}
+            {textField('ifscCode', 'IFSC')}
+            {textField('respondentName', 'Your Name')}
+            {textField('contactNumber', 'Branch Contact Number', 'tel')}
+
+            <Button type="submit" className="w-full h-11" disabled={loading}>
+              {loading ? 'Saving...' : 'Submit'}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import type { Bank } from '../types/bank';
+import { downloadBlob, startLetterExport, type LetterExport } from '../lib/letterExport';
+import type { LetterSettings } from '../lib/letterTemplates';
+
+interface BulkLetterExportProps {
+  banks: Bank[];
+  settings: LetterSettings;
+}
+
+type ExportStatus = 'idle' | 'running' | 'cancelling' | 'cancelled' | 'done' | 'error';
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+export const BulkLetterExport = ({ banks, settings }: BulkLetterExportProps) => {
+  const [status, setStatus] = useState<ExportStatus>('idle');
+  const [done, setDone] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [failed, setFailed] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const exportRef = useRef<LetterExport | null>(null);
+  // Time spent rendering in the current run, for the ETA. Paused time is not counted.
+  const timing = useRef({ runStartedAt: 0, runStartedDone: 0 });
+
+  useEffect(() => () => exportRef.current?.discard(), []);
+
+  const markRunStart = (doneSoFar: number) => {
+    timing.current = { runStartedAt: Date.now(), runStartedDone: doneSoFar };
+  };
+
+  const handleStart = () => {
+    setStatus('running');
+    setDone(0);
+    setFailed(0);
+    setTotal(banks.length);
+    setMessage(null);
+    markRunStart(0);
+    exportRef.current = startLetterExport(banks, settings, {
+      onProgress: (done, total, failed) => {
+        setDone(done);
+        setTotal(total);
+        setFailed(failed);
+      },
+      onCancelled: () => setStatus('cancelled'),
+      onComplete: (zip, failed) => {
+        exportRef.current = null;
+        setStatus('done');
+        setMessage(failed > 0
+          ? `Finished with ${failed} failed letter${failed === 1 ? '' : 's'}. See manifest.csv in the archive.`
+          : 'All letters exported.');
+        downloadBlob(zip, `bank_letters_${new Date().toISOString().slice(0, 10)}.zip`);
+      },
+      onError: (error) => {
+        exportRef.current = null;
+        setStatus('error');
+        setMessage(`Failed to export letters: ${error}`);
+      },
+    });
+  };
+
+  const handleCancel = () => {
+    setStatus('cancelling');
+    exportRef.current?.cancel();
+  };
+
+  const handleResume = () => {
+    setStatus('running');
+    markRunStart(done);
+    exportRef.current?.resume();
+  };
+
+  const handleDiscard = () => {
+    exportRef.current?.discard();
+    exportRef.current = null;
+    setStatus('idle');
+    setDone(0);
+  };
+
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+  const renderedThisRun = done - timing.current.runStartedDone;
+  const eta = status === 'running' && renderedThisRun > 0
+    ? ((Date.now() - timing.current.runStartedAt) / renderedThisRun) * (total - done)
+    : null;
+  const active = status === 'running' || status === 'cancelling' || status === 'cancelled';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        {!active && (
+          <Button
+            variant="outline"
+            disabled={banks.length === 0}
+            onClick={handleStart}
+            className="min-w-[200px]"
+          >
+            Export All Letters (ZIP)
+          </Button>
+        )}
+        {status === 'running' && (
+          <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+        )}
+        {status === 'cancelling' && (
+          <Button variant="outline" disabled>Cancelling...</Button>
+        )}
+        {status === 'cancelled' && (
+          <>
+            <Button variant="outline" onClick={handleResume}>Resume</Button>
+            <Button variant="outline" onClick={handleDiscard}>Discard</Button>
+          </>
+        )}
+      </div>
+
+      {active && (
+        <div className="space-y-1">
+          <div className="h-2 w-full rounded bg-gray-200">
+            <div className="h-2 rounded bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs text-gray-600">
+            {done} / {total} letters ({percent}%)
+            {failed > 0 && `, ${failed} failed`}
+            {eta !== null && ` - about ${formatDuration(eta)} left`}
+            {status === 'cancelled' && ' - paused'}
+          </p>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${status === 'error' ? 'text-red-500' : 'text-gray-600'}`}>{message}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useFormContext, useWatch } from 'react-hook-form';
+import { FormControl, FormField, FormItem, FormLabel } from './ui/form';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { MapPicker } from './MapPicker';
+import {
+  coordinatesProblem,
+  formatCoordinates,
+  fromCoordinatesForm,
+  googleMapsUrl,
+  parseCoordinates,
+  type Coordinates,
+  type CoordinatesFormValues,
+} from '../lib/coordinates';
+import { geocoder } from '../lib/geocoding';
+
+// Latitude/longitude for the form field `name` (a CoordinatesFormValues object): typed in,
+// pasted from a maps link, proposed by the geocoder from `address`, or picked on the map.
+export function CoordinatesEditor({ name, address, state }: {
+  name: string;
+  address: string;
+  // The state implied by the address; pins outside it are flagged.
+  state?: string;
+}) {
+  const form = useFormContext();
+  const values: CoordinatesFormValues = useWatch({ control: form.control, name });
+  const [link, setLink] = useState('');
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [geocoding, setGeocoding] = useState(false);
+
+  const coordinates = fromCoordinatesForm(values);
+  const problem = coordinates && coordinatesProblem(coordinates, state);
+
+  const setCoordinates = ({ latitude, longitude }: Coordinates) => {
+    form.setValue(`${name}.latitude`, latitude.toFixed(6), { shouldValidate: true });
+    form.setValue(`${name}.longitude`, longitude.toFixed(6), { shouldValidate: true });
+  };
+
+  const handleLinkChange = (text: string) => {
+    setLink(text);
+    if (!text.trim()) {
+      setLinkError(null);
+      return;
+    }
+    const parsed = parseCoordinates(text);
+    if (parsed) {
+      setCoordinates(parsed);
+      setLinkError(null);
+    } else {
+      setLinkError("Couldn't find coordinates in that link");
+    }
+  };
+
+  const handleSuggest = async () => {
+    try {
+      setGeocoding(true);
+      setSuggestion(null);
+      const result = await geocoder.geocode(address);
+      if (result) {
+        setCoordinates(result);
+        setSuggestion(`Proposed from ${result.label}${result.precision === 'address' ? '' : ` (${result.precision} level, drag the pin to the branch)`}`);
+      } else {
+        setSuggestion('No location found for this address');
+      }
+    } catch (error) {
+      setSuggestion('Geocoding failed. Please place the pin by hand.');
+    } finally {
+      setGeocoding(false);
+    }
+  };
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="font-medium mb-2">Branch Location</legend>
+      <div className="grid grid-cols-2 gap-4">
+        {(['latitude', 'longitude'] as const).map(part => (
+          <FormField
+            key={part}
+            control={form.control}
+            name={`${name}.${part}`}
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <FormLabel className="text-sm">{part === 'latitude' ? 'Latitude' : 'Longitude'}</FormLabel>
+                <FormControl>
+                  <Input 
+                    placeholder={part === 'latitude' ? 'e.g. 28.459500' : 'e.g. 77.026600'}
+                    {...field}
+                    inputMode="decimal"
+                    className={`${fieldState.error ? "border-red-500" : ""} h-10`}
+                  />
+                </FormControl>
+                {fieldState.error && (
+                  <p className="text-sm text-red-500 mt-1.5">{fieldState.error.message}</p>
+                )}
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Paste a Google Maps / OpenStreetMap link or coordinates"
+          value={link}
+          onChange={(e) => handleLinkChange(e.target.value)}
+          className="h-10"
+        />
+        <Button type="button" variant="outline" onClick={handleSuggest} disabled={geocoding || !address}>
+          {geocoding ? 'Locating...' : 'Suggest from Address'}
+        </Button>
+      </div>
+      {linkError && <p className="text-sm text-red-500">{linkError}</p>}
+      {suggestion && <p className="text-xs text-gray-500">{suggestion}</p>}
+      <MapPicker value={coordinates} onChange={setCoordinates} />
+      {coordinates && (
+        <p className="text-xs">
+          {formatCoordinates(coordinates)}{' '}
+          <a href={googleMapsUrl(coordinates)} target="_blank" rel="noreferrer" className="underline">Open in Google Maps</a>
+        </p>
+      )}
+      {problem && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-3 py-2 rounded text-sm">
+          {problem}
+        </div>
+      )}
+    </fieldset>
+  );
+}
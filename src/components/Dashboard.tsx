@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import type { Bank, PhoneResponse, ResponseType } from '../types/bank';
+import { bankRepository } from '../lib/repository';
+import { campaignStats } from '../lib/dashboard';
+import { leaseExpiresAt } from '../lib/lease';
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const PHONE_RESPONSE_LABELS: Record<PhoneResponse, string> = {
+  toll_free: 'Toll Free Number',
+  registered_only: 'Registered Number Only',
+  invalid_number: 'Invalid Phone Number',
+  no_response: 'No Response',
+  switched_off: 'Switched Off',
+  number_not_found: 'Number Not Found',
+};
+
+const RESPONSE_LABELS: Record<ResponseType, string> = {
+  address_change: 'Address Change',
+  branch_name_change: 'Branch Name Change',
+  no_change_in_address: 'No Change in Address',
+  bank_shift: 'Bank Shift',
+};
+
+function Tally<K extends string>({ title, counts, labels }: {
+  title: string;
+  counts: Record<K, number>;
+  labels: Record<K, string>;
+}) {
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <tbody>
+          {(Object.keys(labels) as K[]).map(key => (
+            <tr key={key} className="border-b">
+              <td className="py-1">{labels[key]}</td>
+              <td className="py-1 text-right">{counts[key]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function Dashboard() {
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+
+  const fetchBanks = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setBanks(await bankRepository.list());
+      setUpdatedAt(new Date());
+    } catch (error) {
+      setError("Failed to fetch banks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBanks();
+    const refresh = setInterval(fetchBanks, REFRESH_INTERVAL_MS);
+    return () => clearInterval(refresh);
+  }, []);
+
+  const stats = campaignStats(banks, updatedAt?.getTime());
+
+  return (
+    <Card className="w-[800px] mx-auto mt-8">
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Campaign Dashboard</span>
+          <div className="flex items-center gap-4">
+            {updatedAt && (
+              <span className="text-sm font-normal">Updated {updatedAt.toLocaleTimeString()}</span>
+            )}
+            <Button variant="outline" size="sm" onClick={fetchBanks} disabled={loading}>
+              Refresh
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-5 gap-4 text-center">
+          {[
+            ['Total', stats.total],
+            ['Completed', stats.completed],
+            ['In Progress', stats.claimed.length],
+            ['Remaining', stats.remaining],
+            ['Awaiting Callback', stats.awaitingCallback],
+          ].map(([label, value]) => (
+            <div key={label} className="border rounded p-3">
+              <div className="text-2xl font-bold">{value}</div>
+              <div className="text-sm">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-6">
+          <Tally title="Phone Responses" counts={stats.byPhoneResponse} labels={PHONE_RESPONSE_LABELS} />
+          <Tally title="Responses" counts={stats.byResponse} labels={RESPONSE_LABELS} />
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-2">Currently Claimed</h3>
+          {stats.claimed.length === 0 ? (
+            <p className="text-sm">No banks are currently claimed.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2">Bank</th>
+                  <th className="py-2">Claimed By</th>
+                  <th className="py-2">Lease Until</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.claimed.map(bank => (
+                  <tr key={bank.id} className="border-b">
+                    <td className="py-2">{bank.bankName} - {bank.branchName}</td>
+                    <td className="py-2">{bank.userName}</td>
+                    <td className="py-2">{new Date(leaseExpiresAt(bank)!).toLocaleTimeString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-2">Caller Throughput</h3>
+          {stats.throughput.length === 0 ? (
+            <p className="text-sm">No submissions yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2">Caller</th>
+                  <th className="py-2 text-right">Last Hour</th>
+                  <th className="py-2 text-right">Last 24 Hours</th>
+                  <th className="py-2 text-right">Per Hour (24h)</th>
+                  <th className="py-2 text-right">All Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.throughput.map(row => (
+                  <tr key={row.caller} className="border-b">
+                    <td className="py-2">{row.caller}</td>
+                    <td className="py-2 text-right">{row.lastHour}</td>
+                    <td className="py-2 text-right">{row.lastDay}</td>
+                    <td className="py-2 text-right">{row.perHour.toFixed(1)}</td>
+                    <td className="py-2 text-right">{row.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
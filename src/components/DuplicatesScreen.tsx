@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import type { Bank } from '../types/bank';
+import { bankRepository } from '../lib/repository';
+import { OUTCOME_LABELS, outcomeOf } from '../lib/outcomes';
+import {
+  DUPLICATE_REASON_LABELS,
+  findDuplicateClusters,
+  markDistinct,
+  markDuplicates,
+  mergeDuplicates,
+  suggestKeeper,
+  type DuplicateCluster,
+} from '../lib/duplicates';
+
+const clusterKey = (cluster: DuplicateCluster) => cluster.banks.map(bank => bank.id).join('-');
+
+export function DuplicatesScreen() {
+  const [banks, setBanks] = useState<Bank[]>([]);
+  // The bank to keep in each cluster, keyed by cluster.
+  const [keepers, setKeepers] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBanks = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setBanks(await bankRepository.list());
+    } catch (error) {
+      setError("Failed to fetch banks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  // Only rescanned when the banks change, not on every keeper choice.
+  const clusters = useMemo(() => findDuplicateClusters(banks), [banks]);
+  const keeperOf = (cluster: DuplicateCluster) => {
+    const chosen = cluster.banks.find(bank => bank.id === keepers[clusterKey(cluster)]);
+    return chosen ?? suggestKeeper(cluster);
+  };
+
+  const resolve = async (action: () => Promise<void>) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+      setBanks(await bankRepository.list());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update banks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const others = (cluster: DuplicateCluster, keep: Bank) => cluster.banks.filter(bank => bank.id !== keep.id);
+
+  return (
+    <Card className="w-[1000px] mx-auto mt-8">
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Duplicate Branches</span>
+          <Button variant="outline" size="sm" onClick={fetchBanks} disabled={loading}>
+            Rescan
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {!loading && clusters.length === 0 && (
+          <p className="text-sm">No duplicate branches found.</p>
+        )}
+
+        {clusters.map(cluster => {
+          const keep = keeperOf(cluster);
+          const key = clusterKey(cluster);
+          return (
+            <div key={key} className="border rounded p-4 space-y-3">
+              <ul className="text-sm text-gray-600">
+                {cluster.links.map(({ a, b, reason, score }) => (
+                  <li key={`${a}-${b}-${reason}`}>
+                    Bank {a} and bank {b}: {DUPLICATE_REASON_LABELS[reason]}
+                    {reason === 'address' && ` (${Math.round(score * 100)}% similar)`}
+                  </li>
+                ))}
+              </ul>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-1">Keep</th>
+                    <th>ID</th>
+                    <th>UFI</th>
+                    <th>IFSC</th>
+                    <th>Bank / Branch</th>
+                    <th>Address</th>
+                    <th>Outcome</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {cluster.banks.map(bank => (
+                    <tr key={bank.id} className="border-b align-top">
+                      <td className="py-1">
+                        <input
+                          type="radio"
+                          name={`keep-${key}`}
+                          checked={bank.id === keep.id}
+                          onChange={() => setKeepers(current => ({ ...current, [key]: bank.id }))}
+                        />
+                      </td>
+                      <td>{bank.id}</td>
+                      <td>{bank.ufi}</td>
+                      <td>{bank.ifscCode}</td>
+                      <td>{bank.bankName} / {bank.branchName}</td>
+                      <td>{bank.address}</td>
+                      <td>{OUTCOME_LABELS[outcomeOf(bank)]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex justify-end gap-4">
+                <Button variant="outline" onClick={() => resolve(() => markDistinct(bankRepository, cluster.banks))} disabled={loading}>
+                  Not Duplicates
+                </Button>
+                <Button variant="outline" onClick={() => resolve(() => markDuplicates(bankRepository, keep, others(cluster, keep)))} disabled={loading}>
+                  Mark Others as Duplicates
+                </Button>
+                <Button onClick={() => resolve(() => mergeDuplicates(bankRepository, keep, others(cluster, keep)))} disabled={loading}>
+                  Merge into Bank {keep.id}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import type { Bank } from '../types/bank';
+import { bankRepository } from '../lib/repository';
+import { downloadBlob } from '../lib/letterExport';
+import { OUTCOMES, OUTCOME_LABELS, type Outcome } from '../lib/outcomes';
+import {
+  GEO_EXPORT_FORMATS,
+  buildGeoExport,
+  selectLocationRecords,
+  validateGeoExport,
+  type GeoExportFormat,
+} from '../lib/geoExport';
+
+// Finished outcomes are exported by default; pending and unreachable banks are opt-in.
+const DEFAULT_OUTCOMES: Outcome[] = ['verified', 'address_changed', 'branch_renamed', 'bank_shifted'];
+
+export function ExportScreen() {
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [outcomes, setOutcomes] = useState<Outcome[]>(DEFAULT_OUTCOMES);
+  const [requireCoordinates, setRequireCoordinates] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  useEffect(() => {
+    const fetchBanks = async () => {
+      try {
+        setLoading(true);
+        setBanks(await bankRepository.list());
+      } catch (error) {
+        setError("Failed to fetch banks. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchBanks();
+  }, []);
+
+  const records = selectLocationRecords(banks, { outcomes, requireCoordinates });
+  const withCoordinates = records.filter(record => record.latitude !== undefined).length;
+
+  const toggleOutcome = (outcome: Outcome, checked: boolean) =>
+    setOutcomes(current => (checked ? [...current, outcome] : current.filter(entry => entry !== outcome)));
+
+  // Every file is checked against its format before it is offered for download.
+  const handleExport = (format: GeoExportFormat) => {
+    const { extension, mimeType } = GEO_EXPORT_FORMATS[format];
+    const name = `branch_locations_${new Date().toISOString().slice(0, 10)}`;
+    const text = buildGeoExport(format, records, name);
+    const found = validateGeoExport(format, text);
+    setProblems(found.map(problem => `${GEO_EXPORT_FORMATS[format].label}: ${problem}`));
+    if (found.length === 0) {
+      downloadBlob(new Blob([text], { type: mimeType }), `${name}.${extension}`);
+    }
+  };
+
+  return (
+    <Card className="w-[700px] mx-auto mt-8">
+      <CardHeader>
+        <CardTitle>Export Branch Locations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <fieldset>
+          <legend className="font-medium mb-2">Include Outcomes</legend>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            {OUTCOMES.map(outcome => (
+              <label key={outcome} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={outcomes.includes(outcome)}
+                  onChange={(e) => toggleOutcome(outcome, e.target.checked)}
+                />
+                {OUTCOME_LABELS[outcome]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={requireCoordinates}
+            onChange={(e) => setRequireCoordinates(e.target.checked)}
+          />
+          Only branches with coordinates
+        </label>
+
+        <p className="text-sm">
+          {loading ? 'Loading banks...' : `${records.length} branches selected, ${withCoordinates} with coordinates.`}
+        </p>
+
+        {problems.length > 0 && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm">
+            <span className="font-semibold">The export failed validation and was not downloaded:</span>
+            <ul className="list-disc ml-5 mt-1">
+              {problems.slice(0, 20).map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-4 border-t pt-4">
+          {(Object.keys(GEO_EXPORT_FORMATS) as GeoExportFormat[]).map(format => (
+            <Button key={format} variant="outline" onClick={() => handleExport(format)} disabled={loading || records.length === 0}>
+              Download {GEO_EXPORT_FORMATS[format].label}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Button } from './ui/button';
+import { bankRepository } from '../lib/repository';
+import {
+  IMPORT_FIELDS,
+  applyImport,
+  countByStatus,
+  guessColumnMapping,
+  missingRequiredFields,
+  planImport,
+  readBranchFile,
+  type BranchFile,
+  type ColumnMapping,
+  type ImportResult,
+  type ImportRow,
+  type ImportStatus,
+} from '../lib/branchImport';
+
+// Radix Select items cannot have an empty value, so "not in this file" gets its own.
+const UNMAPPED = 'none';
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'New',
+  unchanged: 'Unchanged',
+  conflicting: 'Conflicting',
+  invalid: 'Invalid',
+};
+
+type Step = 'file' | 'mapping' | 'review' | 'done';
+
+export function ImportWizard() {
+  const [step, setStep] = useState<Step>('file');
+  const [file, setFile] = useState<BranchFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [plan, setPlan] = useState<ImportRow[]>([]);
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    try {
+      setError(null);
+      const parsed = await readBranchFile(selected);
+      if (parsed.rows.length === 0) {
+        setError('The file has no data rows.');
+        return;
+      }
+      setFile(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('mapping');
+    } catch (error) {
+      setError(`Could not read the file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // The dry run compares against the current sheet; nothing is written yet.
+  const handleDryRun = async () => {
+    if (!file) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setPlan(planImport(file, mapping, await bankRepository.list()));
+      setStep('review');
+    } catch (error) {
+      setError("Failed to fetch banks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setLoading(true);
+      setResult(await applyImport(plan, bankRepository, { overwriteConflicts }, (done, total) => setProgress({ done, total })));
+      setStep('done');
+    } finally {
+      setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const reset = () => {
+    setStep('file');
+    setFile(null);
+    setPlan([]);
+    setResult(null);
+    setOverwriteConflicts(false);
+  };
+
+  const counts = countByStatus(plan);
+  const missing = missingRequiredFields(mapping);
+  const writes = counts.new + (overwriteConflicts ? counts.conflicting : 0);
+
+  return (
+    <Card className="w-[900px] mx-auto mt-8">
+      <CardHeader>
+        <CardTitle>Import Branch Master File</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {step === 'file' && (
+          <div className="space-y-2">
+            <Label htmlFor="branchFile">RBI branch file (CSV or XLSX)</Label>
+            <Input
+              id="branchFile"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === 'mapping' && file && (
+          <>
+            <p className="text-sm">
+              {file.rows.length} rows found. Match each field to a column of the file.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>{label}{required ? ' *' : ''}</Label>
+                  <Select
+                    value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) =>
+                      setMapping(current => ({ ...current, [field]: value === UNMAPPED ? undefined : Number(value) }))
+                    }
+                  >
+                    <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                    <SelectContent className="bg-white">
+                      <SelectItem value={UNMAPPED}>Not in this file</SelectItem>
+                      {file.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-sm text-red-700">
+                Map the required fields: {missing.map(({ label }) => label).join(', ')}.
+              </p>
+            )}
+            <div className="flex justify-end gap-4 border-t pt-4">
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={handleDryRun} disabled={loading || missing.length > 0}>
+                {loading ? 'Checking...' : 'Dry Run'}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'review' && (
+          <>
+            <div className="grid grid-cols-4 gap-4 text-center">
+              {(Object.keys(STATUS_LABELS) as ImportStatus[]).map(status => (
+                <div key={status} className="border rounded p-3">
+                  <div className="text-2xl font-bold">{counts[status]}</div>
+                  <div className="text-sm">{STATUS_LABELS[status]}</div>
+                </div>
+              ))}
+            </div>
+
+            {counts.conflicting > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Conflicting rows</h3>
+                <ul className="text-sm space-y-1 max-h-64 overflow-y-auto">
+                  {plan.map(row => row.status === 'conflicting' && (
+                    <li key={row.line}>
+                      Line {row.line} (bank {row.existing.id}):{' '}
+                      {row.conflicts.map(({ field, current, incoming }) => `${field} "${current}" → "${incoming}"`).join('; ')}
+                    </li>
+                  ))}
+                </ul>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={overwriteConflicts}
+                    onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                  />
+                  Overwrite conflicting fields with the file's values
+                </label>
+              </div>
+            )}
+
+            {counts.invalid > 0 && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm">
+                <span className="font-semibold">Invalid rows are skipped:</span>
+                <ul className="list-disc ml-5 mt-1 max-h-64 overflow-y-auto">
+                  {plan.map(row => row.status === 'invalid' && (
+                    <li key={row.line}>Line {row.line}: {row.issues.join('; ')}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end items-center gap-4 border-t pt-4">
+              {progress && <span className="text-sm">Writing {progress.done} of {progress.total}...</span>}
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={loading}>Back</Button>
+              <Button onClick={handleImport} disabled={loading || writes === 0}>
+                Import {writes} row{writes === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'done' && result && (
+          <>
+            <p className="text-sm">
+              Created {result.created} and updated {result.updated} bank{result.created + result.updated === 1 ? '' : 's'}.
+            </p>
+            {result.failed.length > 0 && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm">
+                <span className="font-semibold">{result.failed.length} rows could not be written:</span>
+                <ul className="list-disc ml-5 mt-1">
+                  {result.failed.map(({ line, error }) => <li key={line}>Line {line}: {error}</li>)}
+                </ul>
+              </div>
+            )}
+            <div className="flex justify-end border-t pt-4">
+              <Button onClick={reset}>Import Another File</Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { PDFViewer } from '@react-pdf/renderer';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { BankLetterPDF } from './BankLetterPDF';
+import type { Bank } from '../types/bank';
+import {
+  DATE_FORMAT_LABELS,
+  LANGUAGE_MODE_LABELS,
+  LETTER_TEMPLATES,
+  type DateFormat,
+  type LetterLanguageMode,
+  type LetterSettings,
+  type LetterTemplateId,
+} from '../lib/letterTemplates';
+import { describeLetterLanguages } from '../lib/letterTranslations';
+
+interface LetterTemplatePickerProps {
+  bank: Bank;
+  qrCodeUrl: string;
+  settings: LetterSettings;
+  onChange: (settings: LetterSettings) => void;
+}
+
+export const LetterTemplatePicker = ({ bank, qrCodeUrl, settings, onChange }: LetterTemplatePickerProps) => {
+  const [previewing, setPreviewing] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Letter Template</Label>
+          <Select
+            value={settings.templateId}
+            onValueChange={(value) => onChange({ ...settings, templateId: value as LetterTemplateId })}
+          >
+            <SelectTrigger className="w-[220px]"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-white">
+              {Object.values(LETTER_TEMPLATES).map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Date Format</Label>
+          <Select
+            value={settings.dateFormat}
+            onValueChange={(value) => onChange({ ...settings, dateFormat: value as DateFormat })}
+          >
+            <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-white">
+              {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => (
+                <SelectItem key={format} value={format}>{DATE_FORMAT_LABELS[format]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Language</Label>
+          <Select
+            value={settings.languageMode}
+            onValueChange={(value) => onChange({ ...settings, languageMode: value as LetterLanguageMode })}
+          >
+            <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-white">
+              {(Object.keys(LANGUAGE_MODE_LABELS) as LetterLanguageMode[]).map(mode => (
+                <SelectItem key={mode} value={mode}>{LANGUAGE_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" disabled={!qrCodeUrl} onClick={() => setPreviewing(!previewing)}>
+          {previewing ? 'Hide Preview' : 'Preview'}
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-600">
+        This branch's letter: {describeLetterLanguages(bank, settings.templateId, settings.languageMode)}
+      </p>
+
+      {previewing && qrCodeUrl && (
+        <PDFViewer width="100%" height={600} showToolbar={false} className="border rounded">
+          <BankLetterPDF bank={bank} qrCodeUrl={qrCodeUrl} settings={settings} />
+        </PDFViewer>
+      )}
+    </div>
+  );
+};
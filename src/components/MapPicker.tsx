@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { Coordinates } from '../lib/coordinates';
+
+const INDIA_CENTRE: L.LatLngTuple = [22.5, 79];
+
+// OpenStreetMap with a single pin. Clicking the map or dragging the pin moves it.
+export function MapPicker({ value, onChange }: {
+  value?: Coordinates;
+  onChange: (coordinates: Coordinates) => void;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.Marker | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const map = L.map(containerRef.current).setView(INDIA_CENTRE, 4);
+    L.tileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      maxZoom: 19,
+      attribution: '&copy; OpenStreetMap contributors',
+    }).addTo(map);
+    map.on('click', (event: L.LeafletMouseEvent) => {
+      onChangeRef.current({ latitude: event.latlng.lat, longitude: event.latlng.lng });
+    });
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      markerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (!value) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+    const position: L.LatLngTuple = [value.latitude, value.longitude];
+    if (!markerRef.current) {
+      // A plain div icon avoids Leaflet's default marker images, which bundlers don't resolve.
+      const icon = L.divIcon({ className: '', html: '<div class="w-4 h-4 rounded-full bg-blue-600 border-2 border-white shadow"></div>', iconSize: [16, 16] });
+      markerRef.current = L.marker(position, { draggable: true, icon }).addTo(map);
+      markerRef.current.on('dragend', () => {
+        const { lat, lng } = markerRef.current!.getLatLng();
+        onChangeRef.current({ latitude: lat, longitude: lng });
+      });
+    } else {
+      markerRef.current.setLatLng(position);
+    }
+    if (!map.getBounds().contains(position) || map.getZoom() < 12) {
+      map.setView(position, Math.max(map.getZoom(), 15));
+    }
+  }, [value?.latitude, value?.longitude]);
+
+  return <div ref={containerRef} className="h-64 w-full rounded border z-0" />;
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { Bank } from '../types/bank';
+import { downloadBlob } from '../lib/letterExport';
+import { MERGE_ORDER_LABELS, startMergedLettersExport, type MergeOrder } from '../lib/mergedLetters';
+import type { LetterSettings } from '../lib/letterTemplates';
+
+interface MergedLetterExportProps {
+  banks: Bank[];
+  settings: LetterSettings;
+}
+
+export const MergedLetterExport = ({ banks, settings }: MergedLetterExportProps) => {
+  const [order, setOrder] = useState<MergeOrder>('pinCode');
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => abortRef.current?.(), []);
+
+  const handleGenerate = () => {
+    setError(null);
+    setStatus('Preparing letters...');
+    abortRef.current = startMergedLettersExport(banks, order, settings, {
+      onProgress: (done, total) => setStatus(`Preparing letters... ${done} / ${total}`),
+      onRendering: () => setStatus('Rendering merged PDF...'),
+      onComplete: (pdf) => {
+        abortRef.current = null;
+        setStatus(null);
+        downloadBlob(pdf, `bank_letters_merged_${order}_${new Date().toISOString().slice(0, 10)}.pdf`);
+      },
+      onError: (message) => {
+        abortRef.current = null;
+        setStatus(null);
+        setError(`Failed to generate merged PDF: ${message}`);
+      },
+    });
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.();
+    abortRef.current = null;
+    setStatus(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Select value={order} onValueChange={(value) => setOrder(value as MergeOrder)} disabled={!!status}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-white">
+            {(Object.keys(MERGE_ORDER_LABELS) as MergeOrder[]).map(key => (
+              <SelectItem key={key} value={key} className="cursor-pointer">
+                {MERGE_ORDER_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {status ? (
+          <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+        ) : (
+          <Button variant="outline" disabled={banks.length === 0} onClick={handleGenerate}>
+            Merged PDF for Print
+          </Button>
+        )}
+      </div>
+      {status && <p className="text-xs text-gray-600">{status}</p>}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { Document, Page, Text, View, StyleSheet } from '@react-pdf/renderer';
+import { BankLetterPages } from './BankLetterPDF';
+import { INDEX_ROWS_PER_PAGE, indexPageCount, type MergedLetter } from '../lib/mergedLetters';
+import type { LetterSettings } from '../lib/letterTemplates';
+import { letterPages } from '../lib/letterTranslations';
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 40,
+    fontSize: 9,
+    fontFamily: 'Helvetica',
+  },
+  title: {
+    fontSize: 16,
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  subtitle: {
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottom: '1px solid #ccc',
+    paddingVertical: 3,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    borderBottom: '1px solid black',
+    paddingVertical: 3,
+    fontFamily: 'Helvetica-Bold',
+  },
+  pageCell: {
+    width: 40,
+  },
+  ufiCell: {
+    width: 60,
+  },
+  ifscCell: {
+    width: 80,
+  },
+  branchCell: {
+    flex: 1,
+  },
+});
+
+interface MergedLettersPDFProps {
+  letters: MergedLetter[];
+  settings: LetterSettings;
+  orderLabel: string;
+  date?: string;
+}
+
+const chunk = <T,>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// Index page(s) followed by one page per letter, in the given order.
+export const MergedLettersPDF = ({ letters, settings, orderLabel, date = new Date().toLocaleDateString() }: MergedLettersPDFProps) => {
+  // Bilingual letters take two pages, so each letter's start page is a running total.
+  const startPages: number[] = [];
+  letters.reduce((page, { bank }) => {
+    startPages.push(page);
+    return page + letterPages(bank, settings.templateId, settings.languageMode).length;
+  }, indexPageCount(letters.length) + 1);
+  const indexPages = letters.length > 0 ? chunk(letters, INDEX_ROWS_PER_PAGE) : [[]];
+
+  return (
+    <Document>
+      {indexPages.map((rows, pageIndex) => (
+        <Page key={`index-${pageIndex}`} size="A4" style={styles.page}>
+          {pageIndex === 0 && (
+            <>
+              <Text style={styles.title}>Bank Letters - Index</Text>
+              <Text style={styles.subtitle}>
+                {letters.length} letters, ordered by {orderLabel}. Generated on {date}.
+              </Text>
+            </>
+          )}
+          <View style={styles.headerRow}>
+            <Text style={styles.pageCell}>Page</Text>
+            <Text style={styles.ufiCell}>UFI</Text>
+            <Text style={styles.ifscCell}>IFSC</Text>
+            <Text style={styles.branchCell}>Branch</Text>
+          </View>
+          {rows.map(({ bank }, rowIndex) => (
+            <View key={bank.id} style={styles.row}>
+              <Text style={styles.pageCell}>{startPages[pageIndex * INDEX_ROWS_PER_PAGE + rowIndex]}</Text>
+              <Text style={styles.ufiCell}>{bank.ufi}</Text>
+              <Text style={styles.ifscCell}>{bank.ifscCode}</Text>
+              <Text style={styles.branchCell}>{bank.bankName} - {bank.branchName}</Text>
+            </View>
+          ))}
+        </Page>
+      ))}
+
+      {letters.map(({ bank, qrCodeUrl }) => (
+        <BankLetterPages key={bank.id} bank={bank} qrCodeUrl={qrCodeUrl} settings={settings} />
+      ))}
+    </Document>
+  );
+};
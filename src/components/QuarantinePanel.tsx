@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { bankRepository } from '../lib/repository';
+import { getQuarantinedRows, subscribeToQuarantine, type QuarantinedRow } from '../lib/quarantine';
+
+export function QuarantinePanel() {
+  const [rows, setRows] = useState<QuarantinedRow[]>(getQuarantinedRows);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToQuarantine(setRows), []);
+
+  // Listing re-validates every row, which fills (or empties) the quarantine.
+  const recheck = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await bankRepository.list();
+    } catch (error) {
+      setError("Failed to fetch banks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    recheck();
+  }, []);
+
+  return (
+    <Card className="w-[800px] mx-auto mt-8">
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Quarantined Rows</span>
+          <Button variant="outline" size="sm" onClick={recheck} disabled={loading}>
+            Recheck
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        {rows.length === 0 ? (
+          <p className="text-center text-sm">Every row matches the bank schema.</p>
+        ) : (
+          <>
+            <p className="text-sm mb-4">
+              These rows are hidden from calling, reports and letters until they are fixed in the sheet.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2">Row</th>
+                  <th className="py-2">Problems</th>
+                  <th className="py-2">Seen At</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={`${row.id ?? ''}-${row.seenAt}`} className="border-b align-top">
+                    <td className="py-2">
+                      {row.id ?? 'No id'}
+                      <details>
+                        <summary className="cursor-pointer text-xs text-gray-500">Raw data</summary>
+                        <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(row.raw, null, 2)}</pre>
+                      </details>
+                    </td>
+                    <td className="py-2">
+                      <ul className="list-disc pl-4 text-red-700">
+                        {row.issues.map(issue => <li key={issue}>{issue}</li>)}
+                      </ul>
+                    </td>
+                    <td className="py-2">{new Date(row.seenAt).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { useSession } from './SessionProvider';
+import type { Bank, ReconciledField } from '../types/bank';
+import { bankRepository } from '../lib/repository';
+import {
+  RECONCILED_FIELD_LABELS,
+  banksNeedingReconciliation,
+  resolveConflicts,
+  type FieldConflict,
+  type Resolution,
+} from '../lib/reconciliation';
+
+const CHOICE_LABELS = { caller: 'Caller', branch: 'Branch', edited: 'Edited' } as const;
+
+// Most recent decisions across all banks, newest first.
+const RECENT_DECISIONS = 20;
+
+export function ReconciliationScreen() {
+  const [banks, setBanks] = useState<Bank[]>([]);
+  // Decisions are logged under the signed-in reviewer's login id.
+  const { user } = useSession();
+  const reviewer = user?.id ?? '';
+  // Pending rulings, keyed by bank id and then field.
+  const [drafts, setDrafts] = useState<Record<number, Partial<Record<ReconciledField, Resolution>>>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBanks = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setBanks(await bankRepository.list());
+    } catch (error) {
+      setError("Failed to fetch banks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  const queue = banksNeedingReconciliation(banks);
+  const decisions = banks
+    .flatMap(bank => (bank.reconciliationLog ?? []).map(decision => ({ bank, decision })))
+    .sort((a, b) => b.decision.at.localeCompare(a.decision.at))
+    .slice(0, RECENT_DECISIONS);
+
+  const setDraft = (bankId: number, resolution: Resolution) =>
+    setDrafts(current => ({ ...current, [bankId]: { ...current[bankId], [resolution.field]: resolution } }));
+
+  const handleSave = async (bank: Bank, conflicts: FieldConflict[]) => {
+    const resolutions = conflicts
+      .map(({ field }) => drafts[bank.id]?.[field])
+      .filter((resolution): resolution is Resolution => !!resolution);
+    try {
+      setLoading(true);
+      setError(null);
+      await resolveConflicts(bankRepository, bank, conflicts, resolutions, reviewer);
+      setDrafts(({ [bank.id]: _saved, ...rest }) => rest);
+      setBanks(await bankRepository.list());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save the decisions. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-[1000px] mx-auto mt-8">
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Reconciliation</span>
+          <Button variant="outline" size="sm" onClick={fetchBanks} disabled={loading}>
+            Refresh
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {!loading && queue.length === 0 && (
+          <p className="text-sm">No branches where the caller and the branch disagree.</p>
+        )}
+
+        {queue.map(({ bank, conflicts }) => {
+          const draft = drafts[bank.id] ?? {};
+          const ready = conflicts.every(({ field }) => draft[field]);
+          return (
+            <div key={bank.id} className="border rounded p-4 space-y-3">
+              <div className="text-sm">
+                <span className="font-semibold">{bank.bankName} - {bank.branchName}</span>
+                {' '}(UFI {bank.ufi}, IFSC {bank.ifscCode})
+                <div className="text-gray-600">
+                  Called by {bank.userName}
+                  {bank.verifiedAt && ` on ${new Date(bank.verifiedAt).toLocaleString()}`}; branch replied
+                  {bank.branchResponse && ` as ${bank.branchResponse.respondentName} on ${new Date(bank.branchResponse.submittedAt).toLocaleString()}`}
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-1 w-28">Field</th>
+                    <th>Caller</th>
+                    <th>Branch</th>
+                    <th className="w-72">Edited value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflicts.map(({ field, callerValue, branchValue }) => {
+                    const chosen = draft[field];
+                    const option = (choice: 'caller' | 'branch', value: string) => (
+                      <label className="flex items-start gap-2">
+                        <input
+                          type="radio"
+                          name={`${bank.id}-${field}`}
+                          checked={chosen?.choice === choice}
+                          onChange={() => setDraft(bank.id, { field, choice })}
+                          className="mt-1"
+                        />
+                        <span>{value || <em className="text-gray-500">none</em>}</span>
+                      </label>
+                    );
+                    return (
+                      <tr key={field} className="border-b align-top">
+                        <td className="py-2 font-medium">{RECONCILED_FIELD_LABELS[field]}</td>
+                        <td className="py-2 pr-2">{option('caller', callerValue)}</td>
+                        <td className="py-2 pr-2">{option('branch', branchValue)}</td>
+                        <td className="py-2">
+                          <Input
+                            value={chosen?.choice === 'edited' ? chosen.editedValue ?? '' : ''}
+                            placeholder="Type a merged value"
+                            onChange={(e) => setDraft(bank.id, { field, choice: 'edited', editedValue: e.target.value })}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="flex justify-end">
+                <Button onClick={() => handleSave(bank, conflicts)} disabled={loading || !ready || !reviewer}>
+                  Save Decisions
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+
+        {decisions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Recent Decisions</h3>
+            <ul className="text-sm space-y-1">
+              {decisions.map(({ bank, decision }) => (
+                <li key={`${bank.id}-${decision.field}-${decision.at}`}>
+                  {new Date(decision.at).toLocaleString()} - {decision.reviewer} - {bank.bankName}, {bank.branchName}:{' '}
+                  {RECONCILED_FIELD_LABELS[decision.field]} set to "{decision.value}" ({CHOICE_LABELS[decision.choice]})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
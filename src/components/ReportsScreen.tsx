@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { pdf } from '@react-pdf/renderer';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Button } from './ui/button';
+import { BankListPDF } from './BankListPDF';
+import type { Bank } from '../types/bank';
+import { bankRepository } from '../lib/repository';
+import { downloadBlob } from '../lib/letterExport';
+import { OUTCOMES, OUTCOME_LABELS, type Outcome } from '../lib/outcomes';
+import {
+  REPORT_ORDER_LABELS,
+  countByOutcome,
+  describeFilter,
+  filterBanks,
+  sortForReport,
+  type ReportFilter,
+  type ReportOrder,
+} from '../lib/reports';
+import { detectState } from '../lib/regions';
+
+// Radix Select items cannot have an empty value, so "no filter" gets its own.
+const ANY = 'any';
+
+const unique = (values: (string | undefined)[]) =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+
+export function ReportsScreen() {
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [filter, setFilter] = useState<ReportFilter>({});
+  const [order, setOrder] = useState<ReportOrder>('sheet');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBanks = async () => {
+      try {
+        setLoading(true);
+        setBanks(await bankRepository.list());
+      } catch (error) {
+        setError("Failed to fetch banks. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchBanks();
+  }, []);
+
+  const setField = <K extends keyof ReportFilter>(key: K, value: ReportFilter[K] | typeof ANY | '') =>
+    setFilter(current => ({ ...current, [key]: value === ANY || value === '' ? undefined : value }));
+
+  const filtered = filterBanks(banks, filter);
+  const counts = countByOutcome(filtered);
+  const callers = unique(banks.map(bank => bank.userName));
+  const states = unique(banks.map(bank => detectState(bank.address)?.name));
+
+  const handleGenerate = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const blob = await pdf(
+        <BankListPDF banks={sortForReport(filtered, order)} filterDescription={describeFilter(filter)} />
+      ).toBlob();
+      downloadBlob(blob, `verification_report_${new Date().toISOString().slice(0, 10)}.pdf`);
+    } catch (error) {
+      setError("Failed to generate the report. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-[700px] mx-auto mt-8">
+      <CardHeader>
+        <CardTitle>Verification Report</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Caller</Label>
+            <Select value={filter.caller ?? ANY} onValueChange={(value) => setField('caller', value)}>
+              <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+              <SelectContent className="bg-white">
+                <SelectItem value={ANY}>All callers</SelectItem>
+                {callers.map(caller => <SelectItem key={caller} value={caller}>{caller}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Outcome</Label>
+            <Select value={filter.outcome ?? ANY} onValueChange={(value) => setField('outcome', value as Outcome)}>
+              <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+              <SelectContent className="bg-white">
+                <SelectItem value={ANY}>All outcomes</SelectItem>
+                {OUTCOMES.map(outcome => <SelectItem key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-from">Verified From</Label>
+            <Input id="report-from" type="date" value={filter.from ?? ''} onChange={(e) => setField('from', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-to">Verified To</Label>
+            <Input id="report-to" type="date" value={filter.to ?? ''} onChange={(e) => setField('to', e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-bank">Bank Name</Label>
+            <Input
+              id="report-bank"
+              placeholder="Any bank"
+              value={filter.bankName ?? ''}
+              onChange={(e) => setField('bankName', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>State</Label>
+            <Select value={filter.state ?? ANY} onValueChange={(value) => setField('state', value)}>
+              <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+              <SelectContent className="bg-white">
+                <SelectItem value={ANY}>All states</SelectItem>
+                {states.map(state => <SelectItem key={state} value={state}>{state}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Order Within Outcome</Label>
+            <Select value={order} onValueChange={(value) => setOrder(value as ReportOrder)}>
+              <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+              <SelectContent className="bg-white">
+                {(Object.keys(REPORT_ORDER_LABELS) as ReportOrder[]).map(key => (
+                  <SelectItem key={key} value={key}>{REPORT_ORDER_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mt-6 text-sm">
+          <span className="font-semibold">Matching banks: {filtered.length}</span>
+          {OUTCOMES.map(outcome => (
+            <span key={outcome}>{OUTCOME_LABELS[outcome]}: {counts[outcome]}</span>
+          ))}
+        </div>
+
+        <div className="flex justify-end border-t pt-4 mt-6">
+          <Button onClick={handleGenerate} disabled={loading || filtered.length === 0} className="min-w-[200px]">
+            {loading ? 'Working...' : 'Download Report PDF'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+import type { ReactNode } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { ROLE_LABELS, hasRole, type Role } from '../lib/auth';
+import { useSession } from './SessionProvider';
+import { SignInScreen } from './SignInScreen';
+
+// Route guard: asks for sign-in, then shows the page only to users with one of `roles`.
+export function RequireRole({ roles, children }: { roles: Role[]; children: ReactNode }) {
+  const { user, loading, configError } = useSession();
+
+  if (loading) return <p className="text-center mt-8">Checking your session...</p>;
+  if (configError) {
+    return (
+      <Card className="w-[400px] mx-auto mt-8">
+        <CardHeader>
+          <CardTitle>Sign-in Unavailable</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>{configError}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+  if (!user) return <SignInScreen />;
+  if (!hasRole(user, roles)) {
+    return (
+      <Card className="w-[400px] mx-auto mt-8">
+        <CardHeader>
+          <CardTitle>Not Allowed</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>This page is for {roles.map(role => ROLE_LABELS[role]).join(' or ')} accounts.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+  return <>{children}</>;
+}
@@ -0,0 +1,63 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { getAuthProvider, type AuthProvider, type AuthUser, type Credentials } from '../lib/auth';
+import { releaseClaimsOf } from '../lib/lease';
+import { bankRepository } from '../lib/repository';
+
+interface Session {
+  user: AuthUser | null;
+  // True until the provider has said whether there is a session.
+  loading: boolean;
+  // Why nobody can sign in, when the build has no usable auth provider.
+  configError: string | null;
+  signIn(credentials: Credentials): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+const SessionContext = createContext<Session | null>(null);
+
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [configError, setConfigError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let authProvider: AuthProvider;
+    try {
+      authProvider = getAuthProvider();
+    } catch (error) {
+      setConfigError(error instanceof Error ? error.message : String(error));
+      setLoading(false);
+      return;
+    }
+    authProvider.currentUser()
+      .then(setUser)
+      .catch(error => console.error('Could not restore the session:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const session: Session = {
+    user,
+    loading,
+    configError,
+    async signIn(credentials) {
+      setUser(await getAuthProvider().signIn(credentials));
+    },
+    async signOut() {
+      // A bank left open goes back to the queue now rather than when its lease runs out.
+      if (user) {
+        await releaseClaimsOf(bankRepository, user.id)
+          .catch(error => console.error('Could not release claimed banks:', error));
+      }
+      await getAuthProvider().signOut();
+      setUser(null);
+    },
+  };
+
+  return <SessionContext.Provider value={session}>{children}</SessionContext.Provider>;
+}
+
+export const useSession = () => {
+  const session = useContext(SessionContext);
+  if (!session) throw new Error('useSession must be used inside a SessionProvider');
+  return session;
+};
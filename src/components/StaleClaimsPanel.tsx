@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import type { Bank } from '../types/bank';
+import { bankRepository } from '../lib/repository';
+import { findStaleClaims, isLeaseExpired, leaseExpiresAt, releaseStaleClaims } from '../lib/lease';
+
+export function StaleClaimsPanel() {
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchBanks = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setBanks(await bankRepository.list());
+    } catch (error) {
+      setError("Failed to fetch banks. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  const handleReleaseStale = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const released = await releaseStaleClaims(bankRepository);
+      setMessage(`Released ${released.length} stale claim${released.length === 1 ? '' : 's'}.`);
+      await fetchBanks();
+    } catch (error) {
+      setError("Failed to release stale claims. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const activeClaims = banks.filter(bank => bank.userName && bank.claimedAt);
+  const staleCount = findStaleClaims(banks).length;
+
+  return (
+    <Card className="w-[800px] mx-auto mt-8">
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Open Claims</span>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={fetchBanks} disabled={loading}>
+              Refresh
+            </Button>
+            <Button onClick={handleReleaseStale} disabled={loading || staleCount === 0}>
+              Release {staleCount} Stale Claim{staleCount === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4">
+            {message}
+          </div>
+        )}
+
+        {activeClaims.length === 0 ? (
+          <p className="text-center text-sm">No banks are currently claimed.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-2">Bank</th>
+                <th className="py-2">Claimed By</th>
+                <th className="py-2">Claimed At</th>
+                <th className="py-2">Lease</th>
+              </tr>
+            </thead>
+            <tbody>
+              {activeClaims.map(bank => (
+                <tr key={bank.id} className="border-b">
+                  <td className="py-2">{bank.bankName} - {bank.branchName}</td>
+                  <td className="py-2">{bank.userName}</td>
+                  <td className="py-2">{new Date(bank.claimedAt!).toLocaleString()}</td>
+                  <td className={`py-2 ${isLeaseExpired(bank) ? 'text-red-500 font-semibold' : ''}`}>
+                    {isLeaseExpired(bank)
+                      ? 'Expired'
+                      : `Until ${new Date(leaseExpiresAt(bank)!).toLocaleTimeString()}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { bankRepository } from '../lib/repository';
+import {
+  discardSubmission,
+  flushOutbox,
+  getPendingSubmissions,
+  overwriteWithSubmission,
+  startOutboxSync,
+  subscribeToOutbox,
+  type PendingSubmission,
+} from '../lib/submissionOutbox';
+
+const STATUS_LABELS: Record<PendingSubmission['status'], string> = {
+  pending: 'Waiting to sync',
+  conflict: 'Bank changed since the call',
+  rejected: 'Rejected by the server',
+};
+
+// Shows submissions that have not reached the sheet yet and keeps retrying them in the background.
+export function SyncIndicator() {
+  const [entries, setEntries] = useState<PendingSubmission[]>(getPendingSubmissions);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => startOutboxSync(bankRepository), []);
+  useEffect(() => subscribeToOutbox(setEntries), []);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (entries.length === 0 && online) return null;
+
+  const needsAttention = entries.some(entry => entry.status !== 'pending');
+
+  return (
+    <div className={`border rounded px-4 py-2 mb-4 text-sm ${needsAttention ? 'bg-red-50 border-red-300' : 'bg-yellow-50 border-yellow-300'}`}>
+      <div className="flex justify-between items-center">
+        <span>
+          {!online && 'Offline. '}
+          {entries.length === 0
+            ? 'Submissions will be saved on this device until the connection returns.'
+            : `${entries.length} submission${entries.length === 1 ? '' : 's'} not yet synced.`}
+        </span>
+        {entries.length > 0 && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => flushOutbox(bankRepository, { force: true })} disabled={!online}>
+              Retry Now
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>
+              {open ? 'Hide' : 'Details'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {open && (
+        <ul className="mt-2 space-y-2">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex justify-between items-start gap-4 border-t pt-2">
+              <div>
+                <div className="font-medium">{entry.label}</div>
+                <div className="text-gray-600">
+                  {STATUS_LABELS[entry.status]} - submitted {new Date(entry.queuedAt).toLocaleString()}
+                  {entry.attempts > 0 && `, ${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'}`}
+                  {entry.status === 'pending' && entry.attempts > 0 && `, next at ${new Date(entry.nextAttemptAt).toLocaleTimeString()}`}
+                </div>
+                {entry.lastError && <div className="text-red-600">{entry.lastError}</div>}
+              </div>
+              {entry.status !== 'pending' && (
+                <div className="flex gap-2 shrink-0">
+                  {entry.status === 'conflict' && (
+                    <Button size="sm" onClick={() => overwriteWithSubmission(bankRepository, entry.id)}>
+                      Overwrite
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => discardSubmission(entry.id)}>
+                    Discard
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
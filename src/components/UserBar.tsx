@@ -0,0 +1,19 @@
+import { Button } from './ui/button';
+import { ROLE_LABELS } from '../lib/auth';
+import { useSession } from './SessionProvider';
+
+export function UserBar() {
+  const { user, signOut } = useSession();
+  if (!user) return null;
+
+  return (
+    <div className="flex justify-end items-center gap-4 text-sm mb-4">
+      <span>
+        Signed in as {user.name} ({user.roles.map(role => ROLE_LABELS[role]).join(', ')})
+      </span>
+      <Button variant="outline" size="sm" onClick={signOut} className="text-xs">
+        Sign Out
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+// The first four letters of an IFSC identify the bank. `aliases` covers short
+// names and banks that were merged into this one but whose names still appear in the data.
+export interface BankCodeEntry {
+  name: string;
+  aliases?: string[];
+}
+
+export const BANK_CODES: Record<string, BankCodeEntry> = {
+  // Public sector banks
+  SBIN: { name: 'State Bank of India', aliases: ['SBI', 'State Bank of Bikaner and Jaipur', 'State Bank of Hyderabad', 'State Bank of Mysore', 'State Bank of Patiala', 'State Bank of Travancore', 'Bharatiya Mahila Bank'] },
+  PUNB: { name: 'Punjab National Bank', aliases: ['PNB', 'Oriental Bank of Commerce', 'United Bank of India'] },
+  BARB: { name: 'Bank of Baroda', aliases: ['BOB', 'Vijaya Bank', 'Dena Bank'] },
+  CNRB: { name: 'Canara Bank', aliases: ['Syndicate Bank'] },
+  UBIN: { name: 'Union Bank of India', aliases: ['Andhra Bank', 'Corporation Bank'] },
+  BKID: { name: 'Bank of India', aliases: ['BOI'] },
+  IOBA: { name: 'Indian Overseas Bank', aliases: ['IOB'] },
+  IDIB: { name: 'Indian Bank', aliases: ['Allahabad Bank'] },
+  UCBA: { name: 'UCO Bank' },
+  CBIN: { name: 'Central Bank of India' },
+  MAHB: { name: 'Bank of Maharashtra' },
+  PSIB: { name: 'Punjab and Sind Bank' },
+
+  // Private sector banks
+  HDFC: { name: 'HDFC Bank' },
+  ICIC: { name: 'ICICI Bank' },
+  UTIB: { name: 'Axis Bank', aliases: ['UTI Bank'] },
+  KKBK: { name: 'Kotak Mahindra Bank' },
+  YESB: { name: 'Yes Bank' },
+  INDB: { name: 'IndusInd Bank' },
+  IBKL: { name: 'IDBI Bank' },
+  FDRL: { name: 'Federal Bank' },
+  SIBL: { name: 'South Indian Bank' },
+  KVBL: { name: 'Karur Vysya Bank' },
+  CIUB: { name: 'City Union Bank' },
+  TMBL: { name: 'Tamilnad Mercantile Bank' },
+  KARB: { name: 'Karnataka Bank' },
+  RATN: { name: 'RBL Bank', aliases: ['Ratnakar Bank'] },
+  IDFB: { name: 'IDFC First Bank', aliases: ['IDFC Bank'] },
+  BDBL: { name: 'Bandhan Bank' },
+  CSBK: { name: 'CSB Bank', aliases: ['Catholic Syrian Bank'] },
+  DCBL: { name: 'DCB Bank', aliases: ['Development Credit Bank'] },
+  DLXB: { name: 'Dhanlaxmi Bank' },
+  JAKA: { name: 'Jammu and Kashmir Bank', aliases: ['J and K Bank'] },
+  NTBL: { name: 'Nainital Bank' },
+  DBSS: { name: 'DBS Bank India', aliases: ['Lakshmi Vilas Bank'] },
+
+  // Small finance and payments banks
+  AUBL: { name: 'AU Small Finance Bank' },
+  ESFB: { name: 'Equitas Small Finance Bank' },
+  UJVN: { name: 'Ujjivan Small Finance Bank' },
+  IPOS: { name: 'India Post Payments Bank' },
+  AIRP: { name: 'Airtel Payments Bank' },
+  FINO: { name: 'Fino Payments Bank' },
+
+  // Foreign banks
+  SCBL: { name: 'Standard Chartered Bank' },
+  CITI: { name: 'Citibank' },
+  HSBC: { name: 'HSBC', aliases: ['Hongkong and Shanghai Banking Corporation'] },
+  DEUT: { name: 'Deutsche Bank' },
+
+  // Co-operative banks
+  SRCB: { name: 'Saraswat Co-operative Bank' },
+  COSB: { name: 'Cosmos Co-operative Bank' },
+  SVCB: { name: 'SVC Co-operative Bank', aliases: ['Shamrao Vithal Co-operative Bank'] },
+  TJSB: { name: 'TJSB Sahakari Bank' },
+  NKGS: { name: 'NKGSB Co-operative Bank' },
+  ABHY: { name: 'Abhyudaya Co-operative Bank' },
+};
@@ -0,0 +1,86 @@
+// The first three digits of a PIN code identify a postal sorting district.
+// Ranges are checked in order, so the exceptions inside a wider range come first.
+// A few prefixes straddle a state border, so an entry can list more than one state.
+export const PIN_PREFIX_STATES: [from: number, to: number, states: string[]][] = [
+  [110, 110, ['Delhi']],
+  [121, 136, ['Haryana']],
+  [160, 160, ['Chandigarh', 'Punjab']],
+  [140, 159, ['Punjab']],
+  [171, 177, ['Himachal Pradesh']],
+  [194, 194, ['Ladakh', 'Jammu and Kashmir']],
+  [180, 193, ['Jammu and Kashmir']],
+  [246, 246, ['Uttarakhand']],
+  [248, 249, ['Uttarakhand']],
+  [263, 263, ['Uttarakhand']],
+  [244, 244, ['Uttar Pradesh', 'Uttarakhand']],
+  [247, 247, ['Uttar Pradesh', 'Uttarakhand']],
+  [262, 262, ['Uttar Pradesh', 'Uttarakhand']],
+  [201, 285, ['Uttar Pradesh']],
+  [301, 345, ['Rajasthan']],
+  [362, 362, ['Gujarat', 'Dadra and Nagar Haveli and Daman and Diu']],
+  [396, 396, ['Gujarat', 'Dadra and Nagar Haveli and Daman and Diu']],
+  [360, 396, ['Gujarat']],
+  [403, 403, ['Goa']],
+  [400, 445, ['Maharashtra']],
+  [450, 488, ['Madhya Pradesh']],
+  [490, 497, ['Chhattisgarh']],
+  [500, 509, ['Telangana']],
+  [533, 533, ['Andhra Pradesh', 'Puducherry']],
+  [510, 535, ['Andhra Pradesh']],
+  [560, 591, ['Karnataka']],
+  [605, 605, ['Tamil Nadu', 'Puducherry']],
+  [609, 609, ['Tamil Nadu', 'Puducherry']],
+  [600, 643, ['Tamil Nadu']],
+  [673, 673, ['Kerala', 'Puducherry']],
+  [682, 682, ['Kerala', 'Lakshadweep']],
+  [670, 695, ['Kerala']],
+  [737, 737, ['Sikkim']],
+  [744, 744, ['Andaman and Nicobar Islands']],
+  [700, 743, ['West Bengal']],
+  [751, 770, ['Odisha']],
+  [781, 788, ['Assam']],
+  [790, 792, ['Arunachal Pradesh']],
+  [793, 794, ['Meghalaya']],
+  [795, 795, ['Manipur']],
+  [796, 796, ['Mizoram']],
+  [797, 798, ['Nagaland']],
+  [799, 799, ['Tripura']],
+  [814, 816, ['Jharkhand']],
+  [822, 822, ['Jharkhand']],
+  [825, 835, ['Jharkhand']],
+  [800, 855, ['Bihar']],
+];
+
+// Sorting districts that fall within a single revenue district.
+export const PIN_PREFIX_DISTRICTS: Record<string, string> = {
+  '121': 'Faridabad',
+  '122': 'Gurugram',
+  '141': 'Ludhiana',
+  '143': 'Amritsar',
+  '160': 'Chandigarh',
+  '208': 'Kanpur Nagar',
+  '221': 'Varanasi',
+  '226': 'Lucknow',
+  '248': 'Dehradun',
+  '302': 'Jaipur',
+  '380': 'Ahmedabad',
+  '390': 'Vadodara',
+  '395': 'Surat',
+  '400': 'Mumbai',
+  '411': 'Pune',
+  '440': 'Nagpur',
+  '452': 'Indore',
+  '462': 'Bhopal',
+  '500': 'Hyderabad',
+  '560': 'Bengaluru Urban',
+  '600': 'Chennai',
+  '625': 'Madurai',
+  '641': 'Coimbatore',
+  '682': 'Ernakulam',
+  '695': 'Thiruvananthapuram',
+  '700': 'Kolkata',
+  '751': 'Khordha',
+  '781': 'Kamrup Metropolitan',
+  '800': 'Patna',
+  '834': 'Ranchi',
+};
@@ -0,0 +1,45 @@
+import type { Bank } from '../types/bank';
+
+// Seed rows for the in-memory repository. Shaped like the Google Sheet.
+export const sampleBanks: Bank[] = [
+  {
+    id: 2,
+    ufi: 100001,
+    bankName: 'State Bank of India',
+    branchName: 'Sector 14 Gurgaon',
+    ifscCode: 'SBIN0004321',
+    address: 'SCO 12, Sector 14, Gurgaon, Haryana 122001',
+  },
+  {
+    id: 3,
+    ufi: 100002,
+    bankName: 'Punjab National Bank',
+    branchName: 'Hazratganj',
+    ifscCode: 'PUNB0012300',
+    address: '12 Ashok Marg, Hazratganj, Lucknow, Uttar Pradesh 226001',
+  },
+  {
+    id: 4,
+    ufi: 100003,
+    bankName: 'Canara Bank',
+    branchName: 'T Nagar',
+    ifscCode: 'CNRB0000456',
+    address: '45 Usman Road, T Nagar, Chennai, Tamil Nadu 600017',
+  },
+  {
+    id: 5,
+    ufi: 100004,
+    bankName: 'Bank of Baroda',
+    branchName: 'Salt Lake',
+    ifscCode: 'BARB0SALTLA',
+    address: 'BD Block, Sector 1, Salt Lake City, Kolkata, West Bengal 700064',
+  },
+  {
+    id: 6,
+    ufi: 100005,
+    bankName: 'HDFC Bank',
+    branchName: 'Andheri East',
+    ifscCode: 'HDFC0000789',
+    address: 'Chakala, Andheri Kurla Road, Andheri East, Mumbai, Maharashtra 400093',
+  },
+];
@@ -0,0 +1,86 @@
+// Approximate bounding boxes, [south, west, north, east] in degrees, used to flag
+// coordinates that fall outside the state in the address. Boxes are deliberately
+// loose; states and union territories in several pieces have one box per piece.
+export type BoundingBox = [south: number, west: number, north: number, east: number];
+
+export const STATE_BOUNDS: Record<string, BoundingBox[]> = {
+  'Andhra Pradesh': [[12.6, 76.7, 19.95, 84.8]],
+  'Arunachal Pradesh': [[26.6, 91.5, 29.5, 97.45]],
+  'Assam': [[24.1, 89.7, 28.0, 96.1]],
+  'Bihar': [[24.3, 83.3, 27.55, 88.3]],
+  'Chhattisgarh': [[17.75, 80.2, 24.15, 84.45]],
+  'Goa': [[14.85, 73.65, 15.85, 74.35]],
+  'Gujarat': [[20.1, 68.1, 24.75, 74.5]],
+  'Haryana': [[27.6, 74.45, 30.95, 77.6]],
+  'Himachal Pradesh': [[30.35, 75.55, 33.3, 79.05]],
+  'Jharkhand': [[21.95, 83.3, 25.35, 87.95]],
+  'Karnataka': [[11.55, 74.0, 18.5, 78.6]],
+  'Kerala': [[8.15, 74.85, 12.8, 77.45]],
+  'Madhya Pradesh': [[21.05, 74.0, 26.9, 82.85]],
+  'Maharashtra': [[15.6, 72.6, 22.05, 80.9]],
+  'Manipur': [[23.8, 93.0, 25.7, 94.8]],
+  'Meghalaya': [[25.0, 89.8, 26.15, 92.85]],
+  'Mizoram': [[21.9, 92.25, 24.55, 93.45]],
+  'Nagaland': [[25.2, 93.3, 27.05, 95.25]],
+  'Odisha': [[17.8, 81.35, 22.6, 87.5]],
+  'Punjab': [[29.5, 73.85, 32.55, 76.95]],
+  'Rajasthan': [[23.05, 69.45, 30.2, 78.3]],
+  'Sikkim': [[27.05, 88.0, 28.15, 88.95]],
+  'Tamil Nadu': [[8.05, 76.2, 13.6, 80.35]],
+  'Telangana': [[15.8, 77.2, 19.95, 81.35]],
+  'Tripura': [[22.9, 91.15, 24.55, 92.35]],
+  'Uttar Pradesh': [[23.85, 77.05, 30.45, 84.65]],
+  'Uttarakhand': [[28.7, 77.55, 31.5, 81.05]],
+  'West Bengal': [[21.5, 85.8, 27.25, 89.9]],
+  'Andaman and Nicobar Islands': [[6.7, 92.2, 13.7, 94.0]],
+  'Chandigarh': [[30.65, 76.68, 30.8, 76.85]],
+  'Dadra and Nagar Haveli and Daman and Diu': [
+    [20.0, 72.9, 20.35, 73.25],
+    [20.35, 72.8, 20.5, 72.9],
+    [20.65, 70.85, 20.75, 71.05],
+  ],
+  'Delhi': [[28.4, 76.83, 28.9, 77.35]],
+  'Jammu and Kashmir': [[32.25, 73.3, 35.1, 76.8]],
+  'Ladakh': [[32.3, 75.3, 36.0, 80.3]],
+  'Lakshadweep': [[8.0, 71.7, 12.5, 74.0]],
+  'Puducherry': [
+    [11.8, 79.6, 12.1, 79.9],
+    [10.8, 79.7, 11.05, 79.9],
+    [11.68, 75.5, 11.73, 75.56],
+    [16.7, 82.18, 16.76, 82.26],
+  ],
+};
+
+// Rough centres of the districts in PIN_PREFIX_DISTRICTS, for the offline geocoder.
+export const DISTRICT_CENTRES: Record<string, [latitude: number, longitude: number]> = {
+  'Faridabad': [28.41, 77.32],
+  'Gurugram': [28.46, 77.03],
+  'Ludhiana': [30.9, 75.85],
+  'Amritsar': [31.63, 74.87],
+  'Chandigarh': [30.73, 76.78],
+  'Kanpur Nagar': [26.45, 80.33],
+  'Varanasi': [25.32, 82.97],
+  'Lucknow': [26.85, 80.95],
+  'Dehradun': [30.32, 78.03],
+  'Jaipur': [26.91, 75.79],
+  'Ahmedabad': [23.02, 72.57],
+  'Vadodara': [22.31, 73.18],
+  'Surat': [21.17, 72.83],
+  'Mumbai': [19.08, 72.88],
+  'Pune': [18.52, 73.86],
+  'Nagpur': [21.15, 79.09],
+  'Indore': [22.72, 75.86],
+  'Bhopal': [23.26, 77.41],
+  'Hyderabad': [17.39, 78.49],
+  'Bengaluru Urban': [12.97, 77.59],
+  'Chennai': [13.08, 80.27],
+  'Madurai': [9.93, 78.12],
+  'Coimbatore': [11.02, 76.96],
+  'Ernakulam': [9.98, 76.28],
+  'Thiruvananthapuram': [8.52, 76.94],
+  'Kolkata': [22.57, 88.36],
+  'Khordha': [20.3, 85.82],
+  'Kamrup Metropolitan': [26.14, 91.74],
+  'Patna': [25.59, 85.14],
+  'Ranchi': [23.34, 85.31],
+};
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import type { AddressParts } from '../types/bank';
+import { isValidPinCode, pinStateConflict } from './pinCode';
+
+// Form values for the address editor; every part starts as ''.
+export const addressPartsFormSchema = z.object({
+  line: z.string().trim().max(120, "Building / line must not exceed 120 characters"),
+  locality: z.string().trim().max(80, "Locality must not exceed 80 characters"),
+  city: z.string().trim().max(60, "City must not exceed 60 characters"),
+  district: z.string().trim().max(60, "District must not exceed 60 characters"),
+  state: z.string(),
+  pinCode: z.string().trim().refine(val => !val || isValidPinCode(val), "PIN code must be 6 digits and not start with 0"),
+}).superRefine((parts, ctx) => {
+  const conflict = pinStateConflict(parts.pinCode, parts.state);
+  if (conflict) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pinCode'], message: conflict });
+});
+
+export type AddressFormValues = z.infer<typeof addressPartsFormSchema>;
+
+export const EMPTY_ADDRESS: AddressFormValues = {
+  line: '',
+  locality: '',
+  city: '',
+  district: '',
+  state: '',
+  pinCode: '',
+};
+
+export const isAddressBlank = (parts: AddressFormValues) => Object.values(parts).every(value => !value);
+
+// The first required part that is missing, as a message, or null when the address is complete.
+export const missingAddressPart = (parts: AddressFormValues) => {
+  if (!parts.line) return 'Building / line is required';
+  if (!parts.city) return 'City is required';
+  if (!parts.state) return 'State is required';
+  if (!parts.pinCode) return 'PIN code is required';
+  return null;
+};
+
+export const toAddressParts = (parts: AddressFormValues): AddressParts => ({
+  line: parts.line,
+  locality: parts.locality || undefined,
+  city: parts.city,
+  district: parts.district || undefined,
+  state: parts.state,
+  pinCode: parts.pinCode,
+});
+
+// One line for the sheet and the letters, e.g. "SCO 12, Sector 14, Gurugram, Haryana - 122001".
+// The district is left out when it just repeats the city. Missing parts are skipped, so a
+// half-filled form can be previewed too.
+export const formatAddress = (parts: AddressParts) =>
+  [
+    parts.line,
+    parts.locality,
+    parts.city,
+    parts.district && parts.district.toLowerCase() !== parts.city.toLowerCase() ? parts.district : undefined,
+    [parts.state, parts.pinCode].filter(Boolean).join(' - '),
+  ]
+    .filter(Boolean)
+    .join(', ');
@@ -0,0 +1,115 @@
+// Compares an original and an updated address word by word, ignoring case,
+// punctuation and the usual abbreviations, so only real changes count.
+
+// Above this, an "address change" is almost certainly the same address retyped.
+export const NEAR_IDENTICAL_SIMILARITY = 0.9;
+
+const EQUIVALENTS: Record<string, string> = {
+  rd: 'road',
+  st: 'street',
+  ln: 'lane',
+  opp: 'opposite',
+  nr: 'near',
+  bh: 'behind',
+  bldg: 'building',
+  flr: 'floor',
+  fl: 'floor',
+  sec: 'sector',
+  sect: 'sector',
+  ngr: 'nagar',
+  mkt: 'market',
+  apt: 'apartment',
+  apts: 'apartments',
+  soc: 'society',
+  col: 'colony',
+  ext: 'extension',
+  extn: 'extension',
+  ph: 'phase',
+  dist: 'district',
+  distt: 'district',
+  tq: 'taluk',
+  tal: 'taluk',
+  taluka: 'taluk',
+  vill: 'village',
+  po: 'post',
+  pb: 'post',
+  ps: 'police',
+  stn: 'station',
+  hwy: 'highway',
+  nh: 'highway',
+  chk: 'chowk',
+  gurgaon: 'gurugram',
+  bombay: 'mumbai',
+  madras: 'chennai',
+  calcutta: 'kolkata',
+  bangalore: 'bengaluru',
+};
+
+export interface AddressToken {
+  // As written, for display.
+  text: string;
+  // Lower-cased, unpunctuated and with abbreviations expanded, for comparison.
+  key: string;
+}
+
+export const tokenizeAddress = (address: string): AddressToken[] =>
+  address
+    .split(/\s+|(?<=,)(?=\S)/)
+    .filter(Boolean)
+    .map(text => {
+      const bare = text.toLowerCase().replace(/[^a-z0-9]/g, '');
+      return { text, key: EQUIVALENTS[bare] ?? bare };
+    })
+    .filter(token => token.key !== '');
+
+// The comparison keys of an address's words, for callers that compare one address many times.
+export const addressKeys = (address: string) => tokenizeAddress(address).map(token => token.key);
+
+// Dice coefficient over two lists of address keys: 1 for the same words in any order, 0 for none in common.
+export const keySimilarity = (a: string[], b: string[]) => {
+  if (a.length === 0 && b.length === 0) return 1;
+  const remaining = new Map<string, number>();
+  a.forEach(key => remaining.set(key, (remaining.get(key) ?? 0) + 1));
+  let common = 0;
+  b.forEach(key => {
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      common++;
+      remaining.set(key, count - 1);
+    }
+  });
+  return (2 * common) / (a.length + b.length);
+};
+
+export const addressSimilarity = (original: string, updated: string) =>
+  keySimilarity(addressKeys(original), addressKeys(updated));
+
+export type DiffPart = { kind: 'same' | 'removed' | 'added'; text: string };
+
+// Word-level diff (longest common subsequence), returned as the original side and the updated side.
+export const diffAddresses = (original: string, updated: string) => {
+  const a = tokenizeAddress(original);
+  const b = tokenizeAddress(updated);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].key === b[j].key ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const left: DiffPart[] = [];
+  const right: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].key === b[j].key) {
+      left.push({ kind: 'same', text: a[i++].text });
+      right.push({ kind: 'same', text: b[j++].text });
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      right.push({ kind: 'added', text: b[j++].text });
+    } else {
+      left.push({ kind: 'removed', text: a[i++].text });
+    }
+  }
+  return { left, right };
+};
@@ -0,0 +1,139 @@
+import type { Bank } from '../types/bank';
+import { attemptsOf } from './callbacks';
+import { LANGUAGE_NAMES, detectState, type LanguageCode, type Region } from './regions';
+
+export interface CallerProfile {
+  userName: string;
+  languages: LanguageCode[];
+}
+
+// Each matching rule adds `weight` to a bank's score; the highest score is served first.
+export type QueueRule =
+  | { kind: 'state'; states: string[]; weight: number }
+  | { kind: 'region'; regions: Region[]; weight: number }
+  | { kind: 'bankName'; pattern: string; weight: number }
+  | { kind: 'ufiRange'; min?: number; max?: number; weight: number }
+  // Applied once per prior attempt; negative values push retried banks back.
+  | { kind: 'attempts'; weightPerAttempt: number }
+  // Boosts banks whose booked callback time has come.
+  | { kind: 'callback'; weight: number }
+  // Scales from 0 (deadline `horizonDays` away or more) to `weight` (due or overdue).
+  | { kind: 'deadline'; weight: number; horizonDays: number }
+  // Boosts banks in states where the caller speaks a local language. With
+  // `required`, callers are never routed to states whose languages they lack.
+  | { kind: 'language'; weight: number; required?: boolean };
+
+export interface RankedBank {
+  bank: Bank;
+  score: number;
+  reasons: string[];
+}
+
+export const DEFAULT_QUEUE_RULES: QueueRule[] = [
+  { kind: 'deadline', weight: 50, horizonDays: 14 },
+  { kind: 'language', weight: 30 },
+  { kind: 'attempts', weightPerAttempt: -10 },
+  { kind: 'callback', weight: 100 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rules can be overridden per deployment with a JSON array in VITE_QUEUE_RULES.
+export const loadQueueRules = (): QueueRule[] => {
+  const configured = import.meta.env.VITE_QUEUE_RULES;
+  if (!configured) return DEFAULT_QUEUE_RULES;
+  try {
+    return JSON.parse(configured) as QueueRule[];
+  } catch {
+    console.error('Invalid VITE_QUEUE_RULES, falling back to the default queue rules');
+    return DEFAULT_QUEUE_RULES;
+  }
+};
+
+const formatWeight = (weight: number) => (weight >= 0 ? `+${weight}` : `${weight}`);
+
+// Scores a bank against the rules. Returns null when a required rule excludes it.
+export const scoreBank = (bank: Bank, rules: QueueRule[], caller: CallerProfile, now = Date.now()): RankedBank | null => {
+  const state = detectState(bank.address);
+  let score = 0;
+  const reasons: string[] = [];
+  const add = (weight: number, reason: string) => {
+    if (weight === 0) return;
+    score += weight;
+    reasons.push(`${reason} (${formatWeight(Math.round(weight))})`);
+  };
+
+  for (const rule of rules) {
+    switch (rule.kind) {
+      case 'state':
+        if (state && rule.states.some(name => name.toLowerCase() === state.name.toLowerCase())) {
+          add(rule.weight, `Branch is in ${state.name}`);
+        }
+        break;
+      case 'region':
+        if (state && rule.regions.includes(state.region)) {
+          add(rule.weight, `Branch is in the ${state.region.replace('_', '-')} region`);
+        }
+        break;
+      case 'bankName':
+        if (new RegExp(rule.pattern, 'i').test(bank.bankName)) {
+          add(rule.weight, `Bank name matches "${rule.pattern}"`);
+        }
+        break;
+      case 'ufiRange':
+        if ((rule.min === undefined || bank.ufi >= rule.min) && (rule.max === undefined || bank.ufi <= rule.max)) {
+          add(rule.weight, `UFI ${bank.ufi} is in range ${rule.min ?? '…'}–${rule.max ?? '…'}`);
+        }
+        break;
+      case 'attempts': {
+        const attempts = attemptsOf(bank);
+        if (attempts > 0) {
+          add(attempts * rule.weightPerAttempt, `${attempts} prior attempt${attempts === 1 ? '' : 's'}`);
+        }
+        break;
+      }
+      case 'callback':
+        if (bank.callbackBy && bank.nextCallAt && new Date(bank.nextCallAt).getTime() <= now) {
+          add(rule.weight, `Callback booked by ${bank.callbackBy} for ${new Date(bank.nextCallAt).toLocaleString()}`);
+        }
+        break;
+      case 'deadline': {
+        if (!bank.letterDeadline) break;
+        const daysLeft = (new Date(bank.letterDeadline).getTime() - now) / DAY_MS;
+        const urgency = Math.min(1, Math.max(0, 1 - daysLeft / rule.horizonDays));
+        add(
+          rule.weight * urgency,
+          daysLeft <= 0 ? 'Letter deadline has passed' : `Letter due in ${Math.ceil(daysLeft)} day${Math.ceil(daysLeft) === 1 ? '' : 's'}`
+        );
+        break;
+      }
+      case 'language': {
+        if (!state) break;
+        const shared = state.languages.filter(language => caller.languages.includes(language));
+        if (shared.length > 0) {
+          add(rule.weight, `You speak ${shared.map(language => LANGUAGE_NAMES[language]).join(', ')} (${state.name})`);
+        } else if (rule.required) {
+          return null;
+        }
+        break;
+      }
+    }
+  }
+
+  if (reasons.length === 0) reasons.push('No priority rules matched; next in line');
+  return { bank, score, reasons };
+};
+
+// Ranks banks by score, highest first. Banks excluded by a required rule are dropped.
+export const rankBanks = (banks: Bank[], rules: QueueRule[], caller: CallerProfile, now = Date.now()) =>
+  banks
+    .map(bank => scoreBank(bank, rules, caller, now))
+    .filter((ranked): ranked is RankedBank => ranked !== null)
+    .sort((a, b) => b.score - a.score);
+
+// Picks randomly among the top-scoring banks so concurrent callers rarely collide.
+export const pickFromQueue = (ranked: RankedBank[]): RankedBank | undefined => {
+  if (ranked.length === 0) return undefined;
+  const top = ranked.filter(entry => entry.score === ranked[0].score);
+  return top[Math.floor(Math.random() * top.length)];
+};
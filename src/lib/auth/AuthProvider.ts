@@ -0,0 +1,45 @@
+import type { LanguageCode } from '../regions';
+
+export const ROLES = ['caller', 'reviewer', 'supervisor', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  caller: 'Caller',
+  reviewer: 'Reviewer',
+  supervisor: 'Supervisor',
+  admin: 'Admin',
+};
+
+export interface AuthUser {
+  // Stable login id; this is what is written to the sheet as the claimer and verifier.
+  id: string;
+  name: string;
+  roles: Role[];
+  // Languages the user can call in, used by the assignment queue.
+  languages?: LanguageCode[];
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export interface AuthProvider {
+  // The signed-in user, or null when there is no session.
+  currentUser(): Promise<AuthUser | null>;
+  // Rejects with AuthenticationError when the credentials are wrong.
+  signIn(credentials: Credentials): Promise<AuthUser>;
+  signOut(): Promise<void>;
+}
+
+export class AuthenticationError extends Error {
+  constructor(message = 'Incorrect username or password') {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// Admins can do everything; everyone else needs one of the listed roles.
+export const hasRole = (user: AuthUser | null, roles: readonly Role[]) =>
+  !!user && (user.roles.includes('admin') || user.roles.some(role => roles.includes(role)));
@@ -0,0 +1,37 @@
+import type { AuthProvider } from './AuthProvider';
+import { createLocalAuthProvider, loadLocalAccounts } from './localAuthProvider';
+import { createRestAuthProvider } from './restAuthProvider';
+
+export { ROLES, ROLE_LABELS, AuthenticationError, hasRole } from './AuthProvider';
+export type { AuthProvider, AuthUser, Credentials, Role } from './AuthProvider';
+export { createRestAuthProvider };
+
+export type AuthProviderKind = 'local' | 'rest';
+
+export const createAuthProvider = (kind: AuthProviderKind): AuthProvider => {
+  switch (kind) {
+    case 'rest':
+      if (!import.meta.env.VITE_AUTH_API) {
+        throw new Error('VITE_AUTH_API must be set to use the REST auth provider');
+      }
+      return createRestAuthProvider(import.meta.env.VITE_AUTH_API);
+    case 'local':
+    default:
+      // The local stand-in and its demo passwords are only built into `npm run dev`.
+      if (import.meta.env.DEV) return createLocalAuthProvider(loadLocalAccounts());
+      throw new Error('The local auth provider is only available in development; set VITE_AUTH_PROVIDER=rest');
+  }
+};
+
+const providerKind = (): AuthProviderKind => {
+  const kind = import.meta.env.VITE_AUTH_PROVIDER as AuthProviderKind | undefined;
+  if (kind) return kind;
+  if (import.meta.env.DEV) return 'local';
+  throw new Error('VITE_AUTH_PROVIDER is not set, so there is no way to sign in');
+};
+
+let provider: AuthProvider | undefined;
+
+// The provider the app signs in with, chosen with VITE_AUTH_PROVIDER. It is created on
+// first use, so a build without one still serves the pages that need no sign-in.
+export const getAuthProvider = () => (provider ??= createAuthProvider(providerKind()));
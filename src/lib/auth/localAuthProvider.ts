@@ -0,0 +1,49 @@
+import { ROLES, AuthenticationError, type AuthProvider, type AuthUser } from './AuthProvider';
+
+export interface LocalAccount extends AuthUser {
+  password: string;
+}
+
+const SESSION_KEY = 'authSession';
+
+// One account per role, for development and demos.
+export const DEMO_ACCOUNTS: LocalAccount[] = [
+  { id: 'caller', name: 'Demo Caller', password: 'caller', roles: ['caller'], languages: ['en', 'hi'] },
+  { id: 'reviewer', name: 'Demo Reviewer', password: 'reviewer', roles: ['reviewer'] },
+  { id: 'supervisor', name: 'Demo Supervisor', password: 'supervisor', roles: ['supervisor', 'caller'], languages: ['en', 'hi'] },
+  { id: 'admin', name: 'Demo Admin', password: 'admin', roles: ['admin'], languages: ['en'] },
+];
+
+// Accounts can be replaced with a JSON array in VITE_LOCAL_ACCOUNTS.
+export const loadLocalAccounts = (): LocalAccount[] => {
+  const configured = import.meta.env.VITE_LOCAL_ACCOUNTS;
+  if (!configured) return DEMO_ACCOUNTS;
+  try {
+    const accounts = JSON.parse(configured) as LocalAccount[];
+    return accounts.map(account => ({ ...account, roles: account.roles.filter(role => ROLES.includes(role)) }));
+  } catch {
+    console.error('Invalid VITE_LOCAL_ACCOUNTS, falling back to the demo accounts');
+    return DEMO_ACCOUNTS;
+  }
+};
+
+const toUser = ({ password: _password, ...user }: LocalAccount): AuthUser => user;
+
+// Stand-in provider that checks passwords in the browser against a fixed account
+// list. The passwords ship in the bundle, so it only suits development and demos.
+export const createLocalAuthProvider = (accounts: LocalAccount[]): AuthProvider => ({
+  async currentUser() {
+    const id = sessionStorage.getItem(SESSION_KEY);
+    const account = accounts.find(entry => entry.id === id);
+    return account ? toUser(account) : null;
+  },
+  async signIn({ username, password }) {
+    const account = accounts.find(entry => entry.id === username.trim());
+    if (!account || account.password !== password) throw new AuthenticationError();
+    sessionStorage.setItem(SESSION_KEY, account.id);
+    return toUser(account);
+  },
+  async signOut() {
+    sessionStorage.removeItem(SESSION_KEY);
+  },
+});
@@ -0,0 +1,35 @@
+import axios from 'axios';
+import { AuthenticationError, type AuthProvider, type AuthUser } from './AuthProvider';
+
+// Session-cookie auth against a JSON backend:
+//   GET  /session   -> AuthUser, 401 when signed out
+//   POST /session   -> AuthUser  body: Credentials, 401 on bad credentials
+//   DELETE /session
+export const createRestAuthProvider = (baseUrl: string): AuthProvider => {
+  const sessionUrl = `${baseUrl}/session`;
+  const options = { withCredentials: true };
+
+  return {
+    async currentUser() {
+      try {
+        const response = await axios.get<AuthUser>(sessionUrl, options);
+        return response.data;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 401) return null;
+        throw error;
+      }
+    },
+    async signIn(credentials) {
+      try {
+        const response = await axios.post<AuthUser>(sessionUrl, credentials, options);
+        return response.data;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 401) throw new AuthenticationError();
+        throw error;
+      }
+    },
+    async signOut() {
+      await axios.delete(sessionUrl, options);
+    },
+  };
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Bank } from '../types/bank';
+import { countByStatus, guessColumnMapping, missingRequiredFields, planImport, readBranchFile, type BranchFile } from './branchImport';
+
+const HEADERS = ['UFI', 'Name of Bank', 'IFSC Code', 'Branch Name', 'Branch Address', 'PIN Code', 'Letter Deadline'];
+
+const file = (...rows: string[][]): BranchFile => ({ headers: HEADERS, rows: rows.map((cells, index) => ({ line: index + 2, cells })) });
+
+const existing: Bank = {
+  id: 2,
+  ufi: 100001,
+  bankName: 'State Bank of India',
+  ifscCode: 'SBIN0000001',
+  branchName: 'Hazratganj',
+  address: 'Hazratganj, Lucknow - 226001',
+};
+
+const plan = (...rows: string[][]) => planImport(file(...rows), guessColumnMapping(HEADERS), [existing]);
+
+describe('guessColumnMapping', () => {
+  it('recognises common header spellings', () => {
+    const mapping = guessColumnMapping(HEADERS);
+
+    expect(mapping).toEqual({ ufi: 0, bankName: 1, ifscCode: 2, branchName: 3, address: 4, pinCode: 5, letterDeadline: 6 });
+    expect(missingRequiredFields(mapping)).toEqual([]);
+  });
+
+  it('lists the required fields it could not find', () => {
+    expect(missingRequiredFields(guessColumnMapping(['Bank', 'Branch'])).map(({ field }) => field)).toEqual(['ufi', 'ifscCode', 'address']);
+  });
+});
+
+describe('readBranchFile', () => {
+  it('skips blank rows without renumbering the rows after them', async () => {
+    const csv = '\r\nUFI,IFSC\r\n100001,SBIN0000001\r\n,\r\n\r\n100002,SBIN0000002\r\n';
+    const { headers, rows } = await readBranchFile(new File([csv], 'branches.csv'));
+
+    expect(headers).toEqual(['UFI', 'IFSC']);
+    expect(rows).toEqual([
+      { line: 3, cells: ['100001', 'SBIN0000001'] },
+      { line: 6, cells: ['100002', 'SBIN0000002'] },
+    ]);
+  });
+});
+
+describe('planImport', () => {
+  it('matches rows to existing banks and numbers them as the spreadsheet does', () => {
+    const rows = plan(
+      ['100001', 'State Bank of India', 'sbin0000001', 'Hazratganj', 'Hazratganj, Lucknow', '226001', ''],
+      ['100001', 'State Bank of India', 'SBIN0000001', 'Hazratganj Main', 'Hazratganj, Lucknow', '226001', ''],
+      ['100002', 'State Bank of India', 'SBIN0000002', 'Aliganj', 'Aliganj, Lucknow', '226024', '2024-03-01']
+    );
+
+    expect(rows.map(row => [row.line, row.status])).toEqual([
+      [2, 'unchanged'],
+      [3, 'invalid'],
+      [4, 'new'],
+    ]);
+    expect(rows[1]).toMatchObject({ issues: ['Same IFSC or UFI as line 2 of this file'] });
+  });
+
+  it('lists the fields a row would change', () => {
+    const [row] = plan(['100001', 'State Bank of India', 'SBIN0000001', 'Hazratganj Main', 'Hazratganj, Lucknow', '226001', '']);
+
+    expect(row).toMatchObject({
+      status: 'conflicting',
+      conflicts: [{ field: 'branchName', current: 'Hazratganj', incoming: 'Hazratganj Main' }],
+    });
+  });
+
+  it('rejects malformed IFSCs, missing fields and IFSC/UFI pairs that point at different banks', () => {
+    const rows = planImport(
+      file(
+        ['100002', 'State Bank of India', 'SBIN1000002', 'Aliganj', 'Aliganj, Lucknow', '', ''],
+        ['100003', '', 'SBIN0000003', 'Aliganj', 'Aliganj, Lucknow', '', ''],
+        ['100001', 'State Bank of India', 'SBIN0000004', 'Gomti Nagar', 'Gomti Nagar, Lucknow', '', '']
+      ),
+      guessColumnMapping(HEADERS),
+      [existing, { ...existing, id: 3, ufi: 100004, ifscCode: 'SBIN0000004' }]
+    );
+
+    expect(rows.map(row => (row.status === 'invalid' ? row.issues : row.status))).toEqual([
+      ['ifscCode: The 5th character of an IFSC must be 0'],
+      ['bankName: Required'],
+      ['IFSC matches bank 3 but UFI matches bank 2'],
+    ]);
+    expect(countByStatus(rows)).toEqual({ new: 0, unchanged: 0, conflicting: 0, invalid: 3 });
+  });
+
+  describe('letter deadlines', () => {
+    const withDeadline = (deadline: string) =>
+      plan(['100002', 'State Bank of India', 'SBIN0000002', 'Aliganj', 'Aliganj, Lucknow', '226024', deadline])[0];
+
+    it('reads a date cell stored as an Excel serial number', () => {
+      expect(withDeadline('45500')).toMatchObject({ status: 'new', bank: { letterDeadline: '2024-07-27' } });
+    });
+
+    it('accepts ISO dates and timestamps', () => {
+      expect(withDeadline('2024-07-28')).toMatchObject({ status: 'new', bank: { letterDeadline: '2024-07-28' } });
+      expect(withDeadline('2024-07-28T17:30:00+05:30')).toMatchObject({ status: 'new' });
+    });
+
+    it('rejects dates whose day and month order depends on the locale', () => {
+      expect(withDeadline('03/04/2024')).toEqual({ status: 'invalid', line: 2, issues: ['letterDeadline: Must be a date written as YYYY-MM-DD'] });
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { formatIssues, newBankSchema, type Bank, type NewBank } from '../types/bank';
+import type { BankRepository } from './repository';
+import { parseCSV } from './csv';
+import { normalizeIfsc, validateIfsc } from './ifsc';
+import { readXlsxRows } from './xlsx';
+
+// Bank fields an import can fill. The address parts after `address` are appended to
+// it when the file splits the address across columns.
+export type ImportField = 'ufi' | 'bankName' | 'ifscCode' | 'branchName' | 'address' | 'city' | 'district' | 'state' | 'pinCode' | 'letterDeadline';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; headers: string[] }[] = [
+  { field: 'ufi', label: 'UFI', required: true, headers: ['ufi', 'unique facility identifier', 'branch code', 'branch id'] },
+  { field: 'bankName', label: 'Bank Name', required: true, headers: ['bank', 'bank name', 'name of bank'] },
+  { field: 'ifscCode', label: 'IFSC', required: true, headers: ['ifsc', 'ifsc code', 'ifsc_code'] },
+  { field: 'branchName', label: 'Branch Name', required: true, headers: ['branch', 'branch name', 'name of branch', 'office'] },
+  { field: 'address', label: 'Address', required: true, headers: ['address', 'branch address', 'address1'] },
+  { field: 'city', label: 'City', required: false, headers: ['city', 'centre', 'center', 'town'] },
+  { field: 'district', label: 'District', required: false, headers: ['district'] },
+  { field: 'state', label: 'State', required: false, headers: ['state'] },
+  { field: 'pinCode', label: 'PIN Code', required: false, headers: ['pin', 'pin code', 'pincode', 'postal code'] },
+  { field: 'letterDeadline', label: 'Letter Deadline', required: false, headers: ['deadline', 'letter deadline'] },
+];
+
+// The column index each field is read from.
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface BranchRow {
+  // Where the row is in the file, counting the header as line 1 as a spreadsheet does.
+  line: number;
+  cells: string[];
+}
+
+export interface BranchFile {
+  headers: string[];
+  rows: BranchRow[];
+}
+
+// The header is the first non-blank row. Blank rows are dropped but still count
+// towards the line numbers of the rows after them.
+export const readBranchFile = async (file: File): Promise<BranchFile> => {
+  const rows = /\.xlsx$/i.test(file.name)
+    ? readXlsxRows(await file.arrayBuffer())
+    : parseCSV((await file.text()).replace(/^﻿/, ''));
+  const [header, ...body] = rows
+    .map((cells, index) => ({ line: index + 1, cells }))
+    .filter(row => row.cells.some(cell => cell.trim() !== ''));
+  return {
+    headers: (header?.cells ?? []).map(cell => cell.trim()),
+    rows: body,
+  };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, headers: known }) => {
+    const index = normalized.findIndex(header => known.map(normalizeHeader).includes(header));
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping) =>
+  IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined);
+
+// Fields an import owns; the rest of a row belongs to the calling workflow.
+const MASTER_FIELDS = ['ufi', 'bankName', 'ifscCode', 'branchName', 'address', 'letterDeadline'] as const;
+
+export type MasterField = (typeof MASTER_FIELDS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Day 0 of Excel's 1900 date system, allowing for its fictitious 29 February 1900.
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+// A date cell in an XLSX file holds a day count (e.g. 45500 for 2024-07-27) rather than
+// text, so a bare number in the deadline column is read as one.
+const fromExcelSerial = (value: string) =>
+  /^\d+(\.\d+)?$/.test(value) ? new Date(EXCEL_EPOCH_MS + Math.floor(Number(value)) * DAY_MS).toISOString().slice(0, 10) : value;
+
+// Deadlines must be ISO dates; "03/04/2024" is read differently depending on the locale.
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+const rowToBank = (row: string[], mapping: ColumnMapping) => {
+  const cell = (field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+  const address = cell('address');
+  const extra = (['city', 'district', 'state'] as const)
+    .map(cell)
+    .filter(part => part && !address.toLowerCase().includes(part.toLowerCase()));
+  const pin = cell('pinCode');
+  return {
+    ufi: cell('ufi'),
+    bankName: cell('bankName'),
+    ifscCode: normalizeIfsc(cell('ifscCode')),
+    branchName: cell('branchName'),
+    address: [address, ...extra].filter(Boolean).join(', ') + (pin && !address.includes(pin) ? ` - ${pin}` : ''),
+    letterDeadline: fromExcelSerial(cell('letterDeadline')),
+  };
+};
+
+export interface FieldConflict {
+  field: MasterField;
+  current: string;
+  incoming: string;
+}
+
+export type ImportRow =
+  | { status: 'new'; line: number; bank: NewBank }
+  | { status: 'unchanged'; line: number; bank: NewBank; existing: Bank }
+  | { status: 'conflicting'; line: number; bank: NewBank; existing: Bank; conflicts: FieldConflict[] }
+  | { status: 'invalid'; line: number; issues: string[] };
+
+export type ImportStatus = ImportRow['status'];
+
+const display = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+
+const conflictsBetween = (existing: Bank, incoming: NewBank): FieldConflict[] =>
+  MASTER_FIELDS
+    .filter(field => incoming[field] !== undefined && display(existing[field]) !== display(incoming[field]))
+    .map(field => ({ field, current: display(existing[field]), incoming: display(incoming[field]) }));
+
+// Dry run: validates every row against the bank schema and matches it to existing
+// records by IFSC and UFI. Nothing is written.
+export const planImport = (file: BranchFile, mapping: ColumnMapping, existing: Bank[]): ImportRow[] => {
+  const byIfsc = new Map(existing.map(bank => [normalizeIfsc(bank.ifscCode), bank]));
+  const byUfi = new Map(existing.map(bank => [bank.ufi, bank]));
+  const seenIfsc = new Map<string, number>();
+  const seenUfi = new Map<number, number>();
+
+  return file.rows.map(({ line, cells }): ImportRow => {
+    const result = newBankSchema.safeParse(rowToBank(cells, mapping));
+    if (!result.success) return { status: 'invalid', line, issues: formatIssues(result.error) };
+    const bank = result.data;
+    // The sheet tolerates legacy codes, but new master data must be well formed.
+    const ifscError = validateIfsc(bank.ifscCode);
+    if (ifscError) return { status: 'invalid', line, issues: [`ifscCode: ${ifscError}`] };
+    if (bank.letterDeadline && !ISO_DATE.test(bank.letterDeadline)) {
+      return { status: 'invalid', line, issues: ['letterDeadline: Must be a date written as YYYY-MM-DD'] };
+    }
+
+    const ifsc = normalizeIfsc(bank.ifscCode);
+    const duplicateLine = seenIfsc.get(ifsc) ?? seenUfi.get(bank.ufi);
+    if (duplicateLine !== undefined) {
+      return { status: 'invalid', line, issues: [`Same IFSC or UFI as line ${duplicateLine} of this file`] };
+    }
+    seenIfsc.set(ifsc, line);
+    seenUfi.set(bank.ufi, line);
+
+    const matchByIfsc = byIfsc.get(ifsc);
+    const matchByUfi = byUfi.get(bank.ufi);
+    if (matchByIfsc && matchByUfi && matchByIfsc.id !== matchByUfi.id) {
+      return {
+        status: 'invalid',
+        line,
+        issues: [`IFSC matches bank ${matchByIfsc.id} but UFI matches bank ${matchByUfi.id}`],
+      };
+    }
+    const match = matchByIfsc ?? matchByUfi;
+    if (!match) return { status: 'new', line, bank };
+    const conflicts = conflictsBetween(match, bank);
+    return conflicts.length === 0
+      ? { status: 'unchanged', line, bank, existing: match }
+      : { status: 'conflicting', line, bank, existing: match, conflicts };
+  });
+};
+
+export const countByStatus = (rows: ImportRow[]) => {
+  const counts: Record<ImportStatus, number> = { new: 0, unchanged: 0, conflicting: 0, invalid: 0 };
+  rows.forEach(row => counts[row.status]++);
+  return counts;
+};
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  failed: { line: number; error: string }[];
+}
+
+// Writes the plan through the repository: new rows are added, and conflicting rows
+// take the file's values only when `overwriteConflicts` is set.
+export const applyImport = async (
+  rows: ImportRow[],
+  repository: BankRepository,
+  { overwriteConflicts = false } = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> => {
+  const writes = rows.filter(row => row.status === 'new' || (overwriteConflicts && row.status === 'conflicting'));
+  const result: ImportResult = { created: 0, updated: 0, failed: [] };
+
+  for (const [index, row] of writes.entries()) {
+    try {
+      if (row.status === 'new') {
+        await repository.create(row.bank);
+        result.created++;
+      } else if (row.status === 'conflicting') {
+        const changes = Object.fromEntries(row.conflicts.map(({ field }) => [field, row.bank[field]]));
+        await repository.update(row.existing.id, changes);
+        result.updated++;
+      }
+    } catch (error) {
+      result.failed.push({ line: row.line, error: error instanceof Error ? error.message : String(error) });
+    }
+    onProgress?.(index + 1, writes.length);
+  }
+  return result;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { Bank, CallAttempt, PhoneResponse } from '../types/bank';
+import { DEFAULT_CALLBACK_POLICY, nextRetryAt, recordCall, type CallbackPolicy } from './callbacks';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Local times, as calling windows are in the caller's time zone. 8 January 2024 is a Monday.
+const at = (day: number, hour: number) => new Date(2024, 0, day, hour);
+
+const attempt = (when: Date, outcome: PhoneResponse = 'no_response'): CallAttempt => ({
+  caller: 'caller',
+  at: when.toISOString(),
+  outcome,
+});
+
+const bank: Bank = {
+  id: 2,
+  ufi: 100001,
+  bankName: 'State Bank of India',
+  branchName: 'Hazratganj',
+  ifscCode: 'SBIN0000001',
+  address: 'Lucknow',
+};
+
+describe('nextRetryAt', () => {
+  const anyTime: CallbackPolicy = { ...DEFAULT_CALLBACK_POLICY, windows: [] };
+  const now = at(8, 9).getTime();
+  const failures = (count: number) => Array.from({ length: count }, () => attempt(at(8, 9)));
+
+  it.each([
+    [1, 2],
+    [2, 24],
+    [3, 48],
+    [6, 48],
+  ])('waits, after %i unreachable attempts, %i hours', (count, hours) => {
+    expect(nextRetryAt(failures(count), anyTime, now).getTime() - now).toBe(hours * HOUR_MS);
+  });
+
+  it('only counts unreachable attempts', () => {
+    const history = [attempt(at(8, 9), 'toll_free'), attempt(at(8, 9))];
+    expect(nextRetryAt(history, anyTime, now).getTime() - now).toBe(2 * HOUR_MS);
+  });
+
+  it('moves the retry into a calling window', () => {
+    expect(nextRetryAt([attempt(at(8, 9))], DEFAULT_CALLBACK_POLICY, now)).toEqual(at(8, 11));
+  });
+
+  it('prefers a window the branch has not been tried in', () => {
+    const tried = at(8, 11);
+    expect(nextRetryAt([attempt(tried)], DEFAULT_CALLBACK_POLICY, tried.getTime())).toEqual(at(8, 14));
+  });
+
+  it('skips Sundays', () => {
+    const saturday = at(13, 16);
+    const history = [attempt(at(12, 11)), attempt(saturday)];
+    expect(nextRetryAt(history, DEFAULT_CALLBACK_POLICY, saturday.getTime())).toEqual(at(15, 10));
+  });
+});
+
+describe('recordCall', () => {
+  const now = at(8, 11).getTime();
+
+  it('puts an unreachable bank back in the queue while it has attempts left', () => {
+    const { changes, final } = recordCall(bank, { attempt: attempt(at(8, 11)) }, DEFAULT_CALLBACK_POLICY, now);
+
+    expect(final).toBe(false);
+    expect(changes.userName).toBe('');
+    expect(changes.nextCallAt).toBe(at(8, 14).toISOString());
+  });
+
+  it('closes the bank after the last allowed attempt', () => {
+    const earlier = { ...bank, callHistory: [attempt(at(1, 11)), attempt(at(2, 14)), attempt(at(4, 11))] };
+    const { changes, final } = recordCall(earlier, { attempt: attempt(at(8, 11)) }, DEFAULT_CALLBACK_POLICY, now);
+
+    expect(final).toBe(true);
+    expect(changes.callHistory).toHaveLength(4);
+    expect(changes.verifiedBy).toBe('caller');
+    expect(changes.nextCallAt).toBe('');
+  });
+
+  it('books a callback for the caller who took it', () => {
+    const callbackAt = at(9, 15);
+    const { changes, final } = recordCall(bank, { attempt: attempt(at(8, 11), 'toll_free'), callbackAt }, DEFAULT_CALLBACK_POLICY, now);
+
+    expect(final).toBe(false);
+    expect(changes.nextCallAt).toBe(callbackAt.toISOString());
+    expect(changes.callbackBy).toBe('caller');
+  });
+});
@@ -0,0 +1,135 @@
+import type { Bank, BankChanges, CallAttempt } from '../types/bank';
+import { UNREACHABLE_PHONE_RESPONSES } from './outcomes';
+import { RELEASED_FIELDS } from './repository/BankRepository';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CallingWindow {
+  // Local hours of the day, `start` inclusive and `end` exclusive.
+  start: number;
+  end: number;
+}
+
+export interface CallbackPolicy {
+  // Unreachable attempts after which a bank is closed as unreachable.
+  maxAttempts: number;
+  // Wait after the 1st, 2nd, … unreachable attempt; the last entry repeats.
+  backoffHours: number[];
+  // Retries go to the window the branch has been tried in least, so it is called at different times of day.
+  windows: CallingWindow[];
+}
+
+export const DEFAULT_CALLBACK_POLICY: CallbackPolicy = {
+  maxAttempts: 4,
+  backoffHours: [2, 24, 48],
+  windows: [
+    { start: 10, end: 13 },
+    { start: 14, end: 17 },
+  ],
+};
+
+// The policy can be overridden per deployment with a JSON object in VITE_CALLBACK_POLICY.
+export const loadCallbackPolicy = (): CallbackPolicy => {
+  const configured = import.meta.env.VITE_CALLBACK_POLICY;
+  if (!configured) return DEFAULT_CALLBACK_POLICY;
+  try {
+    return { ...DEFAULT_CALLBACK_POLICY, ...(JSON.parse(configured) as Partial<CallbackPolicy>) };
+  } catch {
+    console.error('Invalid VITE_CALLBACK_POLICY, falling back to the default callback policy');
+    return DEFAULT_CALLBACK_POLICY;
+  }
+};
+
+export const attemptsOf = (bank: Bank) => bank.callHistory?.length ?? 0;
+
+export const isUnreachable = (attempt: CallAttempt) => UNREACHABLE_PHONE_RESPONSES.includes(attempt.outcome);
+
+// Whether a bank waiting on a retry or a booked callback may be called yet.
+export const isCallDue = (bank: Bank, now = Date.now()) =>
+  !bank.nextCallAt || new Date(bank.nextCallAt).getTime() <= now;
+
+const windowOf = (time: Date, windows: CallingWindow[]) =>
+  windows.findIndex(window => time.getHours() >= window.start && time.getHours() < window.end);
+
+// Picks the calling window used least by earlier attempts, preferring windows after the latest one.
+const nextWindow = (history: CallAttempt[], windows: CallingWindow[]) => {
+  const uses = windows.map(() => 0);
+  history.forEach(attempt => {
+    const index = windowOf(new Date(attempt.at), windows);
+    if (index >= 0) uses[index]++;
+  });
+  const latest = history.length > 0 ? windowOf(new Date(history[history.length - 1].at), windows) : -1;
+  const order = windows.map((_, offset) => (latest + 1 + offset) % windows.length);
+  return windows[order.reduce((best, index) => (uses[index] < uses[best] ? index : best), order[0])];
+};
+
+// First time at or after `earliest` that falls inside `window`, skipping Sundays.
+const firstTimeIn = (window: CallingWindow, earliest: Date) => {
+  const time = new Date(earliest);
+  for (;;) {
+    if (time.getDay() !== 0) {
+      if (time.getHours() < window.start) {
+        time.setHours(window.start, 0, 0, 0);
+        return time;
+      }
+      if (time.getHours() < window.end) return time;
+    }
+    time.setDate(time.getDate() + 1);
+    time.setHours(0, 0, 0, 0);
+  }
+};
+
+// When an unreachable branch should be tried again, given every attempt so far (including the latest).
+export const nextRetryAt = (history: CallAttempt[], policy: CallbackPolicy, now = Date.now()) => {
+  const { backoffHours } = policy;
+  const failures = Math.max(1, history.filter(isUnreachable).length);
+  const wait = backoffHours[Math.min(failures, backoffHours.length) - 1] ?? 0;
+  const earliest = new Date(now + wait * HOUR_MS);
+  return policy.windows.length > 0 ? firstTimeIn(nextWindow(history, policy.windows), earliest) : earliest;
+};
+
+interface CallResult {
+  attempt: CallAttempt;
+  // A time the branch asked to be called back at.
+  callbackAt?: Date;
+}
+
+// The write that records a finished call. The bank goes back to the queue when a
+// callback was booked or an unreachable branch still has attempts left;
+// otherwise the call is final and the form fields are kept.
+export const recordCall = (
+  bank: Bank,
+  { attempt, callbackAt }: CallResult,
+  policy: CallbackPolicy,
+  now = Date.now()
+): { changes: BankChanges; final: boolean } => {
+  const callHistory = [...(bank.callHistory ?? []), attempt];
+  const attemptsLeft = callHistory.filter(isUnreachable).length < policy.maxAttempts;
+  const retryAt = callbackAt
+    ?? (isUnreachable(attempt) && attemptsLeft ? nextRetryAt(callHistory, policy, now) : undefined);
+
+  if (retryAt) {
+    return {
+      final: false,
+      changes: {
+        ...RELEASED_FIELDS,
+        phoneResponse: '',
+        callHistory,
+        nextCallAt: retryAt.toISOString(),
+        callbackBy: callbackAt ? attempt.caller : '',
+      },
+    };
+  }
+  return {
+    final: true,
+    changes: {
+      // Ends the lease so the finished bank never expires back into the queue.
+      claimedAt: '',
+      verifiedAt: new Date(now).toISOString(),
+      verifiedBy: attempt.caller,
+      callHistory,
+      nextCallAt: '',
+      callbackBy: '',
+    },
+  };
+};
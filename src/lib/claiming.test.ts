@@ -0,0 +1,176 @@
+import axios from 'axios';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Bank } from '../types/bank';
+import { claimNextBank } from './claiming';
+import { releaseClaimsOf, releaseStaleClaims } from './lease';
+import { applyChanges } from './repository/BankRepository';
+import { createMemoryBankRepository, createSheetyBankRepository, type BankRepository } from './repository';
+
+vi.mock('axios', () => ({
+  default: { get: vi.fn(), put: vi.fn(), post: vi.fn(), isAxiosError: () => false },
+}));
+
+const ENDPOINT = 'https://sheety.test/banks';
+
+const makeBanks = (count: number): Bank[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: index + 2,
+    ufi: 100000 + index,
+    bankName: 'State Bank of India',
+    branchName: `Branch ${index}`,
+    ifscCode: `SBIN${String(index).padStart(7, '0')}`,
+    address: `${index} Main Road, Lucknow, Uttar Pradesh 226001`,
+  }));
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A Sheety-like backend: every request reaches the sheet after `latency()` ms, and a
+// claim is a separate read and write with nothing stopping another writer in between.
+const fakeSheety = (banks: Bank[], latency: () => number) => {
+  const rows = new Map(banks.map(bank => [bank.id, { ...bank }]));
+  const idOf = (url: string) => Number(url.slice(ENDPOINT.length + 1));
+
+  vi.mocked(axios.get).mockImplementation(async (url: string) => {
+    await delay(latency());
+    if (url === ENDPOINT) return { data: { banks: Array.from(rows.values(), bank => ({ ...bank })) } };
+    return { data: { bank: { ...rows.get(idOf(url)) } } };
+  });
+  vi.mocked(axios.put).mockImplementation(async (url: string, body: unknown) => {
+    await delay(latency());
+    const id = idOf(url);
+    const updated = applyChanges(rows.get(id)!, (body as { bank: Record<string, unknown> }).bank);
+    rows.set(id, updated);
+    return { data: { bank: { ...updated } } };
+  });
+
+  return rows;
+};
+
+const claimConcurrently = (repository: BankRepository, claimers: number, settleMs: number) =>
+  Promise.all(
+    Array.from({ length: claimers }, (_, index) => claimNextBank(repository, `caller-${index}`, { settleMs, maxAttempts: 20 }))
+  );
+
+// Every claimer that got a bank got a different one, and the row agrees it is theirs.
+const expectSingleOwners = async (repository: BankRepository, claimed: (Bank | null)[]) => {
+  const won = claimed.filter((bank): bank is Bank => bank !== null);
+  expect(new Set(won.map(bank => bank.id)).size).toBe(won.length);
+  for (const bank of won) {
+    const row = await repository.get(bank.id);
+    expect(row.claimToken).toBe(bank.claimToken);
+    expect(row.userName).toBe(bank.userName);
+  }
+  return won;
+};
+
+describe('claimNextBank', () => {
+  beforeEach(() => {
+    vi.mocked(axios.get).mockReset();
+    vi.mocked(axios.put).mockReset();
+  });
+
+  describe('against the memory repository', () => {
+    it('gives each bank to one claimer when there are more claimers than banks', async () => {
+      const repository = createMemoryBankRepository({ seed: makeBanks(3) });
+      const claimed = await claimConcurrently(repository, 10, 0);
+
+      const won = await expectSingleOwners(repository, claimed);
+      expect(won).toHaveLength(3);
+      expect(claimed.filter(bank => bank === null)).toHaveLength(7);
+    });
+
+    it('moves losers on to other banks while any are left', async () => {
+      const repository = createMemoryBankRepository({ seed: makeBanks(12) });
+      const claimed = await claimConcurrently(repository, 8, 0);
+
+      expect(await expectSingleOwners(repository, claimed)).toHaveLength(8);
+    });
+  });
+
+  describe('against a Sheety-style backend with non-atomic claims', () => {
+    it('lets two raw claims on the same row both succeed', async () => {
+      const [bank] = makeBanks(1);
+      const rows = fakeSheety([bank], () => 5);
+      const repository = createSheetyBankRepository(ENDPOINT);
+
+      const request = { userName: 'a', claimToken: 'token-a', expectedVersion: 0 };
+      const results = await Promise.allSettled([
+        repository.claim(bank.id, request),
+        repository.claim(bank.id, { ...request, userName: 'b', claimToken: 'token-b' }),
+      ]);
+
+      // This is the race the settle-and-re-read in claimNextBank exists for.
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled']);
+      expect(rows.get(bank.id)?.claimToken).toBe('token-b');
+    });
+
+    it('gives each bank to one claimer when there are more claimers than banks', async () => {
+      fakeSheety(makeBanks(3), () => Math.random() * 10);
+      const repository = createSheetyBankRepository(ENDPOINT);
+      const claimed = await claimConcurrently(repository, 10, 25);
+
+      const won = await expectSingleOwners(repository, claimed);
+      expect(won).toHaveLength(3);
+      expect(claimed.filter(bank => bank === null)).toHaveLength(7);
+    });
+
+    it('moves losers on to other banks while any are left', async () => {
+      fakeSheety(makeBanks(12), () => Math.random() * 10);
+      const repository = createSheetyBankRepository(ENDPOINT);
+      const claimed = await claimConcurrently(repository, 8, 25);
+
+      expect(await expectSingleOwners(repository, claimed)).toHaveLength(8);
+    });
+  });
+
+  describe('releasing claims', () => {
+    const staleBank = (): Bank => ({
+      ...makeBanks(1)[0],
+      userName: 'old-caller',
+      claimToken: 'stale-token',
+      claimVersion: 1,
+      claimedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      leaseSeconds: 60,
+    });
+
+    // Someone claims the bank between the supervisor's list and the release.
+    const claimedAfterList = (repository: BankRepository): BankRepository => ({
+      ...repository,
+      async list() {
+        const rows = await repository.list();
+        await claimNextBank(repository, 'new-caller', { settleMs: 0 });
+        return rows;
+      },
+    });
+
+    it('releases an expired claim', async () => {
+      const repository = createMemoryBankRepository({ seed: [staleBank()] });
+
+      expect(await releaseStaleClaims(repository)).toHaveLength(1);
+      expect((await repository.get(2)).userName).toBeUndefined();
+    });
+
+    it('leaves a stale bank alone once it has been claimed again (memory)', async () => {
+      const repository = createMemoryBankRepository({ seed: [staleBank()] });
+
+      expect(await releaseStaleClaims(claimedAfterList(repository))).toEqual([]);
+      expect((await repository.get(2)).userName).toBe('new-caller');
+    });
+
+    it('leaves a stale bank alone once it has been claimed again (Sheety-style)', async () => {
+      const rows = fakeSheety([staleBank()], () => 1);
+
+      expect(await releaseStaleClaims(claimedAfterList(createSheetyBankRepository(ENDPOINT)))).toEqual([]);
+      expect(rows.get(2)?.userName).toBe('new-caller');
+    });
+
+    it('only releases the claims a signing-out caller still holds', async () => {
+      const repository = createMemoryBankRepository({ seed: makeBanks(2) });
+      const mine = await claimNextBank(repository, 'leaving', { settleMs: 0 });
+      const theirs = await claimNextBank(repository, 'staying', { settleMs: 0 });
+
+      expect((await releaseClaimsOf(repository, 'leaving')).map(bank => bank.id)).toEqual([mine!.id]);
+      expect((await repository.get(theirs!.id)).userName).toBe('staying');
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import type { Bank } from '../types/bank';
+import { isCallDue } from './callbacks';
+import { isDuplicate } from './duplicates';
+import { isAssigned } from './lease';
+import { ClaimConflictError, type BankRepository } from './repository';
+
+interface ClaimOptions {
+  // Candidates to try before giving up.
+  maxAttempts?: number;
+  // Wait before re-reading the row, so a competing write that raced ours has landed.
+  settleMs?: number;
+  // Chooses the next candidate; returning undefined means none of them suit this caller.
+  pick?: (candidates: Bank[]) => Bank | undefined;
+}
+
+const randomPick = (candidates: Bank[]) => candidates[Math.floor(Math.random() * candidates.length)];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createClaimToken = () => crypto.randomUUID();
+
+// Claims an unassigned (or lease-expired) bank that is due a call for `userName`, or returns null when none are left.
+// Banks marked as duplicate listings are never offered.
+// Each attempt writes a fresh claim token, then re-reads the row: if another
+// caller's token is there instead, that bank is skipped and a different one is tried.
+export const claimNextBank = async (
+  repository: BankRepository,
+  userName: string,
+  { maxAttempts = 5, settleMs = 750, pick = randomPick }: ClaimOptions = {}
+): Promise<Bank | null> => {
+  const lost = new Set<number>();
+
+  for (let attempt = 0; ; attempt++) {
+    const candidates = (await repository.list())
+      .filter(bank => !isAssigned(bank) && isCallDue(bank) && !isDuplicate(bank) && !lost.has(bank.id));
+    if (candidates.length === 0) return null;
+    if (attempt === maxAttempts) {
+      throw new Error(`Could not claim a bank after ${maxAttempts} attempts`);
+    }
+
+    const candidate = pick(candidates);
+    if (!candidate) return null;
+    const claimToken = createClaimToken();
+    try {
+      await repository.claim(candidate.id, {
+        userName,
+        claimToken,
+        expectedVersion: candidate.claimVersion ?? 0,
+      });
+      await delay(settleMs);
+      const confirmed = await repository.get(candidate.id);
+      if (confirmed.claimToken === claimToken) return confirmed;
+    } catch (error) {
+      if (!(error instanceof ClaimConflictError)) throw error;
+    }
+    lost.add(candidate.id);
+  }
+};
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { STATE_BOUNDS } from '../data/stateBounds';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Generous box around India, to catch swapped or mistyped coordinates.
+const INDIA_BOUNDS = { south: 6, west: 68, north: 37.5, east: 97.5 };
+
+const NUMBER = '(-?\\d{1,3}(?:\\.\\d+)?)';
+
+// Patterns for the places map links put coordinates, most specific first.
+const LINK_PATTERNS = [
+  // Google Maps place data: !3d28.46!4d77.03
+  new RegExp(`!3d${NUMBER}!4d${NUMBER}`),
+  // Google Maps viewport: /@28.46,77.03,17z
+  new RegExp(`@${NUMBER},${NUMBER}`),
+  // ?q=, ?query=, ?ll=, ?center=, ?destination= and geo: URIs
+  new RegExp(`(?:[?&](?:q|query|ll|center|destination)=|geo:)${NUMBER}(?:,|%2C)\\s*${NUMBER}`),
+  // OpenStreetMap: #map=17/28.46/77.03
+  new RegExp(`#map=\\d+/${NUMBER}/${NUMBER}`),
+  // OpenStreetMap marker: ?mlat=28.46&mlon=77.03
+  new RegExp(`mlat=${NUMBER}&mlon=${NUMBER}`),
+];
+
+const toCoordinates = (latitude: string, longitude: string): Coordinates | undefined => {
+  const result = { latitude: Number(latitude), longitude: Number(longitude) };
+  return Math.abs(result.latitude) <= 90 && Math.abs(result.longitude) <= 180 ? result : undefined;
+};
+
+// Reads "28.4595, 77.0266" or a Google Maps / OpenStreetMap link.
+export const parseCoordinates = (text: string): Coordinates | undefined => {
+  const trimmed = text.trim();
+  const plain = trimmed.match(new RegExp(`^${NUMBER}\\s*[,\\s]\\s*${NUMBER}$`));
+  if (plain) return toCoordinates(plain[1], plain[2]);
+  for (const pattern of LINK_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) return toCoordinates(match[1], match[2]);
+  }
+  return undefined;
+};
+
+export const isInIndia = ({ latitude, longitude }: Coordinates) =>
+  latitude >= INDIA_BOUNDS.south && latitude <= INDIA_BOUNDS.north &&
+  longitude >= INDIA_BOUNDS.west && longitude <= INDIA_BOUNDS.east;
+
+// Whether the point is inside the state's (approximate) bounds; undefined for an unknown state.
+export const isInState = ({ latitude, longitude }: Coordinates, state: string) =>
+  STATE_BOUNDS[state]?.some(([south, west, north, east]) =>
+    latitude >= south && latitude <= north && longitude >= west && longitude <= east
+  );
+
+// Describes why a pin looks misplaced for a branch in `state`, or undefined when it looks fine.
+export const coordinatesProblem = (coordinates: Coordinates, state: string | undefined) => {
+  if (!isInIndia(coordinates)) return 'These coordinates are outside India. Are latitude and longitude swapped?';
+  if (state && isInState(coordinates, state) === false) return `These coordinates are outside ${state}, the state in the address`;
+  return undefined;
+};
+
+export const stateCentre = (state: string): Coordinates | undefined => {
+  const box = STATE_BOUNDS[state]?.[0];
+  return box && { latitude: (box[0] + box[2]) / 2, longitude: (box[1] + box[3]) / 2 };
+};
+
+export const formatCoordinates = ({ latitude, longitude }: Coordinates) =>
+  `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+
+export const googleMapsUrl = ({ latitude, longitude }: Coordinates) =>
+  `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+
+const coordinate = (max: number, name: string) =>
+  z.string().trim().refine(val => !val || (Number.isFinite(Number(val)) && Math.abs(Number(val)) <= max), `${name} must be a number between -${max} and ${max}`);
+
+// Form values for the coordinates editor; both are '' until a pin is set.
+export const coordinatesFormSchema = z.object({
+  latitude: coordinate(90, 'Latitude'),
+  longitude: coordinate(180, 'Longitude'),
+}).refine(({ latitude, longitude }) => !latitude === !longitude, {
+  message: 'Enter both latitude and longitude',
+  path: ['longitude'],
+});
+
+export type CoordinatesFormValues = z.infer<typeof coordinatesFormSchema>;
+
+export const EMPTY_COORDINATES: CoordinatesFormValues = { latitude: '', longitude: '' };
+
+export const fromCoordinatesForm = ({ latitude, longitude }: CoordinatesFormValues): Coordinates | undefined =>
+  latitude && longitude ? { latitude: Number(latitude), longitude: Number(longitude) } : undefined;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParseError, parseCSV, toCSV } from './csv';
+
+describe('toCSV', () => {
+  it('quotes only the fields that need it and ends every line with CRLF', () => {
+    expect(toCSV(['name', 'note'], [['Hazratganj', 'says "hi", twice'], ['Aliganj\nBranch', undefined]])).toBe(
+      'name,note\r\nHazratganj,"says ""hi"", twice"\r\n"Aliganj\nBranch",\r\n'
+    );
+  });
+});
+
+describe('parseCSV', () => {
+  it('reads back what toCSV writes', () => {
+    const rows = [['a', 'b,c'], ['"quoted"', 'two\r\nlines'], ['', '']];
+    expect(parseCSV(toCSV(rows[0], rows.slice(1)))).toEqual(rows);
+  });
+
+  it('accepts LF line endings and a missing final newline', () => {
+    expect(parseCSV('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it.each([
+    ['a,b"c\n', 'Line 1: Quote inside an unquoted field'],
+    ['a\n"b"c\n', 'Line 2: Unexpected character after a closing quote'],
+    ['a\n"b\nc', 'Line 3: Unterminated quoted field'],
+  ])('rejects %j', (text, message) => {
+    expect(() => parseCSV(text)).toThrow(CsvParseError);
+    expect(() => parseCSV(text)).toThrow(message);
+  });
+});
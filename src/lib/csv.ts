@@ -0,0 +1,80 @@
+// RFC 4180 CSV: comma-separated, CRLF line endings, fields quoted when they
+// contain a comma, quote or line break, and quotes doubled inside quoted fields.
+
+export const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+export class CsvParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'CsvParseError';
+    this.line = line;
+  }
+}
+
+// Parses CSV text into rows of cells. Accepts LF as well as CRLF line endings;
+// throws CsvParseError on a stray or unterminated quote.
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let i = 0;
+
+  const endCell = () => {
+    row.push(cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+        i++;
+        if (i < text.length && !/[,\r\n]/.test(text[i])) {
+          throw new CsvParseError('Unexpected character after a closing quote', line);
+        }
+        continue;
+      }
+      if (char === '\n') line++;
+      cell += char;
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      if (cell !== '') throw new CsvParseError('Quote inside an unquoted field', line);
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\r' || char === '\n') {
+      endRow();
+      line++;
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+  if (quoted) throw new CsvParseError('Unterminated quoted field', line);
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
@@ -0,0 +1,80 @@
+import { PHONE_RESPONSES, RESPONSE_TYPES, type Bank, type PhoneResponse, type ResponseType } from '../types/bank';
+import { isCallDue } from './callbacks';
+import { isDuplicate } from './duplicates';
+import { isAssigned, isCompleted } from './lease';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface CallerThroughput {
+  caller: string;
+  lastHour: number;
+  lastDay: number;
+  total: number;
+  // Average over the hours between the caller's first submission and now, capped at a day.
+  perHour: number;
+}
+
+export interface CampaignStats {
+  total: number;
+  completed: number;
+  // Neither submitted nor held by a live claim.
+  remaining: number;
+  // Remaining banks held back until a retry or booked callback is due.
+  awaitingCallback: number;
+  byPhoneResponse: Record<PhoneResponse, number>;
+  byResponse: Record<ResponseType, number>;
+  claimed: Bank[];
+  throughput: CallerThroughput[];
+}
+
+const countBy = <K extends string>(keys: readonly K[], values: (K | undefined)[]) => {
+  const counts = Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>;
+  values.forEach(value => {
+    if (value) counts[value]++;
+  });
+  return counts;
+};
+
+const isClaimed = (bank: Bank, now: number) => !!bank.claimedAt && isAssigned(bank, now);
+
+// Submissions per caller over the last hour and the last 24 hours.
+export const throughputByCaller = (banks: Bank[], now = Date.now()): CallerThroughput[] => {
+  const submissions = new Map<string, number[]>();
+  banks.forEach(bank => {
+    if (!isCompleted(bank) || !bank.verifiedAt) return;
+    const times = submissions.get(bank.userName!) ?? [];
+    times.push(new Date(bank.verifiedAt).getTime());
+    submissions.set(bank.userName!, times);
+  });
+
+  return Array.from(submissions, ([caller, times]) => {
+    const lastDay = times.filter(time => now - time < DAY_MS).length;
+    const firstToday = Math.min(...times.filter(time => now - time < DAY_MS));
+    const hoursActive = Math.max(1, (now - firstToday) / HOUR_MS);
+    return {
+      caller,
+      lastHour: times.filter(time => now - time < HOUR_MS).length,
+      lastDay,
+      total: times.length,
+      perHour: lastDay > 0 ? lastDay / hoursActive : 0,
+    };
+  }).sort((a, b) => b.lastDay - a.lastDay || a.caller.localeCompare(b.caller));
+};
+
+// Duplicate listings are left out: their branch is counted under the bank that was kept.
+export const campaignStats = (allBanks: Bank[], now = Date.now()): CampaignStats => {
+  const banks = allBanks.filter(bank => !isDuplicate(bank));
+  const completed = banks.filter(isCompleted);
+  const claimed = banks.filter(bank => isClaimed(bank, now));
+  return {
+    total: banks.length,
+    completed: completed.length,
+    remaining: banks.length - completed.length - claimed.length,
+    awaitingCallback: banks.filter(bank => !isCompleted(bank) && !isClaimed(bank, now) && !isCallDue(bank, now)).length,
+    byPhoneResponse: countBy(PHONE_RESPONSES, completed.map(bank => bank.phoneResponse)),
+    byResponse: countBy(RESPONSE_TYPES, completed.map(bank => bank.response)),
+    claimed,
+    throughput: throughputByCaller(banks, now),
+  };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { Bank } from '../types/bank';
+import { findDuplicateClusters, mergedChanges } from './duplicates';
+
+let nextId = 2;
+
+const bank = (fields: Partial<Bank> & Pick<Bank, 'address'>): Bank => {
+  const id = nextId++;
+  return {
+    id,
+    ufi: 100000 + id,
+    bankName: 'State Bank of India',
+    branchName: `Branch ${id}`,
+    ifscCode: `SBIN${String(id).padStart(7, '0')}`,
+    ...fields,
+  };
+};
+
+const clusterIds = (banks: Bank[]) =>
+  findDuplicateClusters(banks).map(cluster => cluster.banks.map(member => member.id).sort((a, b) => a - b));
+
+describe('findDuplicateClusters', () => {
+  it('links listings that share an IFSC or a UFI', () => {
+    const a = bank({ address: 'Hazratganj, Lucknow 226001' });
+    const b = bank({ address: 'Gomti Nagar, Lucknow 226010', ifscCode: a.ifscCode.toLowerCase() });
+    const c = bank({ address: 'Aliganj, Lucknow 226024', ufi: b.ufi });
+
+    expect(clusterIds([a, b, c])).toEqual([[a.id, b.id, c.id]]);
+  });
+
+  it('links near-identical addresses of the same bank under one PIN code', () => {
+    const a = bank({ address: '12 Station Road, Hazratganj, Lucknow 226001' });
+    const b = bank({ address: '12, Station Rd., Hazratganj, Lucknow - 226001', bankName: 'SBI' });
+
+    expect(clusterIds([a, b])).toEqual([[a.id, b.id]]);
+  });
+
+  it('keeps apart addresses that only differ in a shop number', () => {
+    const a = bank({ address: 'Shop 5, Mahatma Gandhi Marg, Hazratganj, Lucknow 226001' });
+    const b = bank({ address: 'Shop 55, Mahatma Gandhi Marg, Hazratganj, Lucknow 226001' });
+
+    expect(clusterIds([a, b])).toEqual([]);
+  });
+
+  it('only compares addresses within the same bank and PIN code', () => {
+    const a = bank({ address: '12 Mahatma Gandhi Marg, Hazratganj, Lucknow 226001' });
+    const otherBank = bank({ address: a.address, bankName: 'Canara Bank', ifscCode: 'CNRB0000001' });
+    const otherPin = bank({ address: '12 Mahatma Gandhi Marg, Hazratganj, Lucknow 226002' });
+
+    expect(clusterIds([a, otherBank, otherPin])).toEqual([]);
+  });
+
+  it('skips marked duplicates and pairs reviewed as distinct', () => {
+    const a = bank({ address: 'Hazratganj, Lucknow 226001' });
+    const merged = bank({ address: a.address, ifscCode: a.ifscCode, duplicateOf: a.id });
+    const reviewed = bank({ address: a.address, ifscCode: a.ifscCode, distinctFrom: [a.id] });
+
+    expect(clusterIds([a, merged, reviewed])).toEqual([]);
+  });
+});
+
+describe('mergedChanges', () => {
+  it('takes every call, the earliest deadline and the answer the kept bank lacks', () => {
+    const keep = bank({ address: 'Hazratganj, Lucknow 226001', letterDeadline: '2024-03-01' });
+    const answered = bank({
+      address: keep.address,
+      letterDeadline: '2024-02-01',
+      userName: 'caller',
+      response: 'no_change_in_address',
+      verifiedAt: '2024-01-08T10:05:00.000Z',
+      callHistory: [{ caller: 'caller', at: '2024-01-08T10:00:00.000Z', outcome: 'toll_free' }],
+    });
+
+    const changes = mergedChanges(keep, [answered]);
+    expect(changes.callHistory).toEqual(answered.callHistory);
+    expect(changes.letterDeadline).toBe('2024-02-01');
+    expect(changes.response).toBe('no_change_in_address');
+    expect(changes.userName).toBe('caller');
+  });
+
+  it('leaves an answered kept bank as it is', () => {
+    const keep = bank({ address: 'Hazratganj, Lucknow 226001', response: 'address_change', verifiedAt: '2024-01-09T10:00:00.000Z' });
+    const answered = bank({ address: keep.address, response: 'no_change_in_address', verifiedAt: '2024-01-08T10:00:00.000Z' });
+
+    expect(mergedChanges(keep, [answered])).toEqual({});
+  });
+});
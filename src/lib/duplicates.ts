@@ -0,0 +1,184 @@
+import type { Bank, BankChanges } from '../types/bank';
+import { addressKeys, keySimilarity } from './addressSimilarity';
+import { canonicalBankName, normalizeIfsc } from './ifsc';
+import { isAssigned, isCompleted } from './lease';
+import { extractPinCode } from './pinCode';
+import { detectState } from './regions';
+import type { BankRepository } from './repository';
+
+// Two listings of the same bank whose addresses are at least this similar are treated as one branch.
+export const FUZZY_ADDRESS_SIMILARITY = 0.85;
+
+export type DuplicateReason = 'ifsc' | 'ufi' | 'address';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  ifsc: 'Same IFSC',
+  ufi: 'Same UFI',
+  address: 'Same bank, similar address',
+};
+
+export interface DuplicateLink {
+  a: number;
+  b: number;
+  reason: DuplicateReason;
+  // Address similarity for fuzzy matches; 1 for exact collisions.
+  score: number;
+}
+
+export interface DuplicateCluster {
+  banks: Bank[];
+  links: DuplicateLink[];
+}
+
+export const isDuplicate = (bank: Bank) => bank.duplicateOf !== undefined;
+
+// House, shop and plot numbers in an address, other than its PIN. Listings that differ
+// in any of them ("Shop 5" and "Shop 55" on the same road) are different branches.
+const numberTokens = (keys: string[], pin: string | undefined) =>
+  keys.filter(key => /\d/.test(key) && key !== pin).sort().join(' ');
+
+const isDistinct = (a: Bank, b: Bank) => !!a.distinctFrom?.includes(b.id) || !!b.distinctFrom?.includes(a.id);
+
+// Groups banks that share an IFSC or UFI, or that belong to the same bank and have
+// near-identical addresses with the same numbers in them. Links chain, so A~B and
+// B~C put A, B and C in one cluster.
+// Banks already marked as duplicates and pairs reviewed as distinct are skipped.
+export const findDuplicateClusters = (banks: Bank[], threshold = FUZZY_ADDRESS_SIMILARITY): DuplicateCluster[] => {
+  const candidates = banks.filter(bank => !isDuplicate(bank));
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const links: DuplicateLink[] = [];
+  const link = (i: number, j: number, reason: DuplicateReason, score: number) => {
+    const [a, b] = [candidates[i], candidates[j]];
+    if (isDistinct(a, b)) return;
+    links.push({ a: a.id, b: b.id, reason, score });
+    parent[find(i)] = find(j);
+  };
+
+  const linkExact = (keyOf: (bank: Bank) => string, reason: DuplicateReason) => {
+    const first = new Map<string, number>();
+    candidates.forEach((bank, index) => {
+      const key = keyOf(bank);
+      const seen = first.get(key);
+      if (seen === undefined) first.set(key, index);
+      else link(seen, index, reason, 1);
+    });
+  };
+  linkExact(bank => normalizeIfsc(bank.ifscCode), 'ifsc');
+  linkExact(bank => String(bank.ufi), 'ufi');
+
+  // Addresses are only compared within the same bank and PIN code (or, without a PIN,
+  // the same state), which keeps the pairwise comparison to a handful of rows each.
+  const pins = candidates.map(bank => extractPinCode(bank.address));
+  const keys = candidates.map(bank => addressKeys(bank.address));
+  const numbers = keys.map((bankKeys, index) => numberTokens(bankKeys, pins[index]));
+  const groups = new Map<string, number[]>();
+  candidates.forEach((bank, index) => {
+    const place = pins[index] ?? detectState(bank.address)?.name ?? '';
+    const key = `${canonicalBankName(bank.bankName)}|${place}`;
+    const group = groups.get(key);
+    if (group) group.push(index);
+    else groups.set(key, [index]);
+  });
+  groups.forEach(indexes => {
+    indexes.forEach((i, position) => {
+      indexes.slice(position + 1).forEach(j => {
+        if (find(i) === find(j) || numbers[i] !== numbers[j]) return;
+        const score = keySimilarity(keys[i], keys[j]);
+        if (score >= threshold) link(i, j, 'address', score);
+      });
+    });
+  });
+
+  const clusters = new Map<number, DuplicateCluster>();
+  const rootOf = new Map<number, number>();
+  candidates.forEach((bank, index) => {
+    const root = find(index);
+    rootOf.set(bank.id, root);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.banks.push(bank);
+    else clusters.set(root, { banks: [bank], links: [] });
+  });
+  links.forEach(entry => clusters.get(rootOf.get(entry.a)!)!.links.push(entry));
+  return Array.from(clusters.values()).filter(cluster => cluster.banks.length > 1);
+};
+
+// The bank to keep by default: one that has been called already, otherwise the oldest row.
+export const suggestKeeper = (cluster: DuplicateCluster) =>
+  cluster.banks.find(isCompleted) ?? cluster.banks.reduce((oldest, bank) => (bank.id < oldest.id ? bank : oldest));
+
+// The call result moves as a whole, so a merged bank never mixes two callers' answers.
+const RESULT_FIELDS = [
+  'userName',
+  'phoneNumber',
+  'phoneResponse',
+  'response',
+  'remarks',
+  'verifiedAt',
+  'verifiedBy',
+  'updateAddress',
+  'updateAddressParts',
+  'addressSimilarity',
+  'latitude',
+  'longitude',
+  'updatedBranchName',
+  'correctedIfsc',
+] as const;
+
+// What the kept bank takes from its duplicates: every call made to any of them, the
+// earliest letter deadline, and a call result if it has none of its own.
+export const mergedChanges = (keep: Bank, duplicates: Bank[]): BankChanges => {
+  const changes: BankChanges = {};
+  const history = [keep, ...duplicates].flatMap(bank => bank.callHistory ?? []);
+  if (history.length > (keep.callHistory?.length ?? 0)) {
+    changes.callHistory = history.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  const deadlines = [keep, ...duplicates].map(bank => bank.letterDeadline).filter((deadline): deadline is string => !!deadline);
+  const earliest = deadlines.sort((a, b) => Date.parse(a) - Date.parse(b))[0];
+  if (earliest && earliest !== keep.letterDeadline) changes.letterDeadline = earliest;
+
+  const answered = duplicates.find(isCompleted);
+  if (!isCompleted(keep) && !isAssigned(keep) && answered) {
+    RESULT_FIELDS.forEach(field => {
+      (changes as Record<string, unknown>)[field] = answered[field] ?? '';
+    });
+  }
+  return changes;
+};
+
+const assertNotClaimed = (banks: Bank[]) => {
+  const claimed = banks.find(bank => !!bank.claimedAt && isAssigned(bank));
+  if (claimed) throw new Error(`Bank ${claimed.id} is being called by ${claimed.userName}; try again once they finish`);
+};
+
+// Points each duplicate at the kept bank, which takes them out of the calling queue.
+export const markDuplicates = async (repository: BankRepository, keep: Bank, duplicates: Bank[]) => {
+  assertNotClaimed(duplicates);
+  for (const duplicate of duplicates) {
+    await repository.update(duplicate.id, { duplicateOf: keep.id });
+  }
+};
+
+// Marks the duplicates and folds their call history and results into the kept bank.
+export const mergeDuplicates = async (repository: BankRepository, keep: Bank, duplicates: Bank[]) => {
+  assertNotClaimed(duplicates);
+  const changes = mergedChanges(keep, duplicates);
+  if (Object.keys(changes).length > 0) await repository.update(keep.id, changes);
+  await markDuplicates(repository, keep, duplicates);
+};
+
+// Records that every bank in the cluster is a separate branch, so the cluster is not raised again.
+export const markDistinct = async (repository: BankRepository, banks: Bank[]) => {
+  for (const bank of banks) {
+    const others = banks.filter(other => other.id !== bank.id).map(other => other.id);
+    const distinctFrom = Array.from(new Set([...(bank.distinctFrom ?? []), ...others])).sort((a, b) => a - b);
+    await repository.update(bank.id, { distinctFrom });
+  }
+};
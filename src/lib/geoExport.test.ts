@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { Bank } from '../types/bank';
+import { parseCSV } from './csv';
+import { selectLocationRecords, toGeoJSON, toLocationCSV, validateGeoJSON } from './geoExport';
+
+const bank = (id: number, fields: Partial<Bank> = {}): Bank => ({
+  id,
+  ufi: 100000 + id,
+  bankName: 'State Bank of India',
+  branchName: `Branch ${id}`,
+  ifscCode: `SBIN${String(id).padStart(7, '0')}`,
+  address: 'Hazratganj, Lucknow 226001',
+  response: 'no_change_in_address',
+  verifiedAt: '2024-01-08T10:00:00.000Z',
+  userName: 'caller',
+  latitude: 26.85,
+  longitude: 80.95,
+  ...fields,
+});
+
+const everything = { outcomes: ['verified' as const, 'pending' as const], requireCoordinates: false };
+
+describe('selectLocationRecords', () => {
+  it('exports each branch once, leaving out duplicate listings', () => {
+    const banks = [bank(2), bank(3, { duplicateOf: 2 })];
+    expect(selectLocationRecords(banks, everything).map(record => record.ufi)).toEqual([100002]);
+  });
+
+  it('filters by outcome and, when asked, by having a pin', () => {
+    const banks = [bank(2), bank(3, { response: undefined }), bank(4, { latitude: undefined, longitude: undefined })];
+
+    expect(selectLocationRecords(banks, { outcomes: ['verified'], requireCoordinates: true }).map(record => record.ufi)).toEqual([100002]);
+  });
+
+  it('falls back to the original values where nothing was corrected', () => {
+    const [record] = selectLocationRecords([bank(2, { updateAddress: 'Gomti Nagar, Lucknow 226010' })], everything);
+
+    expect(record.correctedAddress).toBe('Gomti Nagar, Lucknow 226010');
+    expect(record.correctedBranchName).toBe('Branch 2');
+    expect(record.verifiedBy).toBe('caller');
+  });
+});
+
+describe('toGeoJSON', () => {
+  it('writes [longitude, latitude] and a null geometry for a branch without a pin', () => {
+    const records = selectLocationRecords([bank(2), bank(3, { latitude: undefined, longitude: undefined })], everything);
+    const text = toGeoJSON(records);
+    const { features } = JSON.parse(text);
+
+    expect(validateGeoJSON(text)).toEqual([]);
+    expect(features[0].geometry).toEqual({ type: 'Point', coordinates: [80.95, 26.85] });
+    expect(features[1].geometry).toBeNull();
+    expect(features[0].properties).not.toHaveProperty('latitude');
+  });
+
+  it('flags swapped or out-of-range coordinates', () => {
+    const swapped = { type: 'FeatureCollection', features: [{ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [26.85, 95] } }] };
+
+    expect(validateGeoJSON(JSON.stringify(swapped))).toEqual(['Feature 1: Point coordinates must be [longitude, latitude] in range']);
+  });
+});
+
+describe('toLocationCSV', () => {
+  it('writes one row per record under a header, with blank coordinates for a missing pin', () => {
+    const records = selectLocationRecords([bank(2, { address: 'Shop 5, "Main" Road' }), bank(3, { latitude: undefined, longitude: undefined })], everything);
+    const [header, first, second] = parseCSV(toLocationCSV(records));
+
+    expect(header.slice(-2)).toEqual(['latitude', 'longitude']);
+    expect(first[header.indexOf('originalAddress')]).toBe('Shop 5, "Main" Road');
+    expect(second.slice(-2)).toEqual(['', '']);
+  });
+});
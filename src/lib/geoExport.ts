@@ -0,0 +1,230 @@
+import type { Bank } from '../types/bank';
+import { parseCSV, toCSV } from './csv';
+import { isDuplicate } from './duplicates';
+import { outcomeOf, type Outcome } from './outcomes';
+
+export type GeoExportFormat = 'geojson' | 'kml' | 'csv';
+
+export const GEO_EXPORT_FORMATS: Record<GeoExportFormat, { label: string; extension: string; mimeType: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+};
+
+export interface GeoExportFilter {
+  outcomes: Outcome[];
+  // Leave out banks with no pin.
+  requireCoordinates: boolean;
+}
+
+// One exported branch. Corrected values fall back to the originals when nothing changed.
+export interface LocationRecord {
+  ufi: number;
+  ifscCode: string;
+  bankName: string;
+  originalBranchName: string;
+  correctedBranchName: string;
+  originalAddress: string;
+  correctedAddress: string;
+  response: string;
+  outcome: Outcome;
+  verifiedBy: string;
+  verifiedAt: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+const COLUMNS: (keyof LocationRecord)[] = [
+  'ufi',
+  'ifscCode',
+  'bankName',
+  'originalBranchName',
+  'correctedBranchName',
+  'originalAddress',
+  'correctedAddress',
+  'response',
+  'outcome',
+  'verifiedBy',
+  'verifiedAt',
+  'latitude',
+  'longitude',
+];
+
+export const toLocationRecord = (bank: Bank): LocationRecord => ({
+  ufi: bank.ufi,
+  ifscCode: bank.correctedIfsc || bank.ifscCode,
+  bankName: bank.bankName,
+  originalBranchName: bank.branchName,
+  correctedBranchName: bank.updatedBranchName || bank.branchName,
+  originalAddress: bank.address,
+  correctedAddress: bank.updateAddress || bank.address,
+  response: bank.response ?? '',
+  outcome: outcomeOf(bank),
+  verifiedBy: bank.verifiedAt ? bank.verifiedBy ?? bank.userName ?? '' : '',
+  verifiedAt: bank.verifiedAt ?? '',
+  latitude: bank.latitude,
+  longitude: bank.longitude,
+});
+
+const hasCoordinates = (record: LocationRecord): record is LocationRecord & { latitude: number; longitude: number } =>
+  record.latitude !== undefined && record.longitude !== undefined;
+
+// Duplicate listings are left out, so each branch is exported once.
+export const selectLocationRecords = (banks: Bank[], filter: GeoExportFilter) =>
+  banks
+    .filter(bank => !isDuplicate(bank) && filter.outcomes.includes(outcomeOf(bank)))
+    .map(toLocationRecord)
+    .filter(record => !filter.requireCoordinates || hasCoordinates(record));
+
+const propertiesOf = (record: LocationRecord) => {
+  const { latitude: _latitude, longitude: _longitude, ...properties } = record;
+  return properties;
+};
+
+// RFC 7946: positions are [longitude, latitude]; a branch without a pin gets a null geometry.
+export const toGeoJSON = (records: LocationRecord[]) =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: records.map(record => ({
+      type: 'Feature',
+      id: record.ufi,
+      geometry: hasCoordinates(record) ? { type: 'Point', coordinates: [record.longitude, record.latitude] } : null,
+      properties: propertiesOf(record),
+    })),
+  }, null, 2);
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[char]!);
+
+export const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+
+// OGC KML 2.2: coordinates are "longitude,latitude"; a branch without a pin has no Point.
+export const toKML = (records: LocationRecord[], name: string) => {
+  const placemarks = records.map(record => {
+    const data = Object.entries(propertiesOf(record))
+      .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join('\n');
+    const point = hasCoordinates(record)
+      ? `\n      <Point><coordinates>${record.longitude},${record.latitude}</coordinates></Point>`
+      : '';
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(`${record.bankName} - ${record.correctedBranchName}`)}</name>`,
+      `      <description>${escapeXml(record.correctedAddress)}</description>`,
+      '      <ExtendedData>',
+      data,
+      `      </ExtendedData>${point}`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<kml xmlns="${KML_NAMESPACE}">`,
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+export const toLocationCSV = (records: LocationRecord[]) =>
+  toCSV(COLUMNS, records.map(record => COLUMNS.map(column => record[column])));
+
+export const buildGeoExport = (format: GeoExportFormat, records: LocationRecord[], name: string) => {
+  switch (format) {
+    case 'geojson':
+      return toGeoJSON(records);
+    case 'kml':
+      return toKML(records, name);
+    case 'csv':
+      return toLocationCSV(records);
+  }
+};
+
+const isLongitude = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= 180;
+const isLatitude = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= 90;
+
+// Checks a FeatureCollection of Point (or null) geometries against RFC 7946. Returns the problems found.
+export const validateGeoJSON = (text: string): string[] => {
+  let collection: unknown;
+  try {
+    collection = JSON.parse(text);
+  } catch (error) {
+    return [`Not valid JSON: ${(error as Error).message}`];
+  }
+  const root = collection as { type?: unknown; features?: unknown };
+  if (root?.type !== 'FeatureCollection') return ['Root object must have type "FeatureCollection"'];
+  if (!Array.isArray(root.features)) return ['"features" must be an array'];
+
+  const problems: string[] = [];
+  root.features.forEach((feature, index) => {
+    const where = `Feature ${index + 1}`;
+    if (feature?.type !== 'Feature') problems.push(`${where}: type must be "Feature"`);
+    if (feature?.properties !== null && typeof feature?.properties !== 'object') {
+      problems.push(`${where}: properties must be an object or null`);
+    }
+    const geometry = feature?.geometry;
+    if (geometry === null) return;
+    if (geometry?.type !== 'Point') {
+      problems.push(`${where}: geometry must be a Point or null`);
+    } else if (
+      !Array.isArray(geometry.coordinates) ||
+      geometry.coordinates.length < 2 ||
+      !isLongitude(geometry.coordinates[0]) ||
+      !isLatitude(geometry.coordinates[1])
+    ) {
+      problems.push(`${where}: Point coordinates must be [longitude, latitude] in range`);
+    }
+  });
+  return problems;
+};
+
+// Checks well-formedness, the KML 2.2 root element and every Point's coordinates.
+export const validateKML = (text: string): string[] => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const parseError = document.getElementsByTagName('parsererror')[0];
+  if (parseError) return [`Not well-formed XML: ${parseError.textContent?.trim() ?? ''}`];
+  const root = document.documentElement;
+  if (root.localName !== 'kml' || root.namespaceURI !== KML_NAMESPACE) {
+    return [`Root element must be <kml> in the ${KML_NAMESPACE} namespace`];
+  }
+
+  const problems: string[] = [];
+  Array.from(document.getElementsByTagNameNS(KML_NAMESPACE, 'Placemark')).forEach((placemark, index) => {
+    Array.from(placemark.getElementsByTagNameNS(KML_NAMESPACE, 'coordinates')).forEach(element => {
+      const parts = (element.textContent ?? '').trim().split(',').map(Number);
+      if (parts.length < 2 || parts.length > 3 || !isLongitude(parts[0]) || !isLatitude(parts[1])) {
+        problems.push(`Placemark ${index + 1}: coordinates must be "longitude,latitude[,altitude]" in range`);
+      }
+    });
+  });
+  return problems;
+};
+
+// Checks RFC 4180 quoting and that every row has as many fields as the header.
+export const validateCSV = (text: string): string[] => {
+  let rows: string[][];
+  try {
+    rows = parseCSV(text);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+  if (rows.length === 0) return ['The file has no header row'];
+  const width = rows[0].length;
+  return rows.flatMap((row, index) =>
+    row.length === width ? [] : [`Row ${index + 1} has ${row.length} fields, expected ${width}`]
+  );
+};
+
+export const validateGeoExport = (format: GeoExportFormat, text: string) => {
+  switch (format) {
+    case 'geojson':
+      return validateGeoJSON(text);
+    case 'kml':
+      return validateKML(text);
+    case 'csv':
+      return validateCSV(text);
+  }
+};
@@ -0,0 +1,13 @@
+import type { Coordinates } from '../coordinates';
+
+export interface GeocodeResult extends Coordinates {
+  // What the pin was matched on, shown to the caller, e.g. "Gurugram district".
+  label: string;
+  // How close the pin is likely to be to the branch.
+  precision: 'address' | 'district' | 'state';
+}
+
+export interface Geocoder {
+  // Resolves to null when nothing in the address could be placed.
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
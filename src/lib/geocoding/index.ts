@@ -0,0 +1,23 @@
+import type { Geocoder } from './Geocoder';
+import { createNominatimGeocoder } from './nominatimGeocoder';
+import { createOfflineGeocoder } from './offlineGeocoder';
+
+export type { Geocoder, GeocodeResult } from './Geocoder';
+export { createNominatimGeocoder, createOfflineGeocoder };
+
+const DEFAULT_NOMINATIM_API = 'https://nominatim.openstreetmap.org';
+
+export type GeocoderKind = 'offline' | 'nominatim';
+
+export const createGeocoder = (kind: GeocoderKind): Geocoder => {
+  switch (kind) {
+    case 'nominatim':
+      return createNominatimGeocoder(import.meta.env.VITE_NOMINATIM_API || DEFAULT_NOMINATIM_API);
+    case 'offline':
+    default:
+      return createOfflineGeocoder();
+  }
+};
+
+// The geocoder that proposes pins, chosen with VITE_GEOCODER (defaults to the offline stand-in).
+export const geocoder = createGeocoder((import.meta.env.VITE_GEOCODER as GeocoderKind | undefined) ?? 'offline');
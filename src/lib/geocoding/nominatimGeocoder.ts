@@ -0,0 +1,25 @@
+import axios from 'axios';
+import type { Geocoder } from './Geocoder';
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+// OpenStreetMap Nominatim (or a self-hosted instance with the same /search API).
+export const createNominatimGeocoder = (endpoint: string): Geocoder => ({
+  async geocode(address) {
+    const response = await axios.get<NominatimPlace[]>(`${endpoint}/search`, {
+      params: { q: address, format: 'json', countrycodes: 'in', limit: 1 },
+    });
+    const place = response.data[0];
+    if (!place) return null;
+    return {
+      latitude: Number(place.lat),
+      longitude: Number(place.lon),
+      label: place.display_name,
+      precision: 'address',
+    };
+  },
+});
@@ -0,0 +1,25 @@
+import { DISTRICT_CENTRES } from '../../data/stateBounds';
+import { stateCentre } from '../coordinates';
+import { extractPinCode, lookupPinCode } from '../pinCode';
+import { detectState } from '../regions';
+import type { Geocoder } from './Geocoder';
+
+// Development stand-in that needs no network: places the pin at the centre of the
+// district from the PIN code, or failing that, the centre of the state in the address.
+export const createOfflineGeocoder = (): Geocoder => ({
+  async geocode(address) {
+    const pin = extractPinCode(address);
+    const district = pin ? lookupPinCode(pin)?.district : undefined;
+    const centre = district ? DISTRICT_CENTRES[district] : undefined;
+    if (district && centre) {
+      return { latitude: centre[0], longitude: centre[1], label: `${district} district`, precision: 'district' };
+    }
+
+    const state = detectState(address);
+    const coordinates = state ? stateCentre(state.name) : undefined;
+    if (state && coordinates) {
+      return { ...coordinates, label: state.name, precision: 'state' };
+    }
+    return null;
+  },
+});
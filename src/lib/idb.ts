@@ -0,0 +1,39 @@
+// Minimal promise wrappers around IndexedDB, enough for small key/value stores.
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (name: string, stores: { name: string; keyPath: string }[], version = 1) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      for (const store of stores) {
+        if (!request.result.objectStoreNames.contains(store.name)) {
+          request.result.createObjectStore(store.name, { keyPath: store.keyPath });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = <T>(db: IDBDatabase, store: string) =>
+  requestToPromise(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+
+export const put = <T>(db: IDBDatabase, store: string, value: T) =>
+  requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value)).then(() => value);
+
+export const putAll = <T>(db: IDBDatabase, store: string, values: T[]) =>
+  new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    values.forEach(value => objectStore.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+export const remove = (db: IDBDatabase, store: string, key: IDBValidKey) =>
+  requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key)).then(() => undefined);
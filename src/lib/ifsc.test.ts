@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalBankName, ifscMatchesBank, ifscProblems, normalizeIfsc, validateIfsc } from './ifsc';
+
+describe('normalizeIfsc', () => {
+  it('trims and upper-cases', () => {
+    expect(normalizeIfsc('  sbin0004321 ')).toBe('SBIN0004321');
+  });
+});
+
+describe('validateIfsc', () => {
+  it('accepts a well-formed code in any case', () => {
+    expect(validateIfsc('sbin0004321')).toBeNull();
+    expect(validateIfsc('BARB0SALTLA')).toBeNull();
+  });
+
+  it.each([
+    ['SBIN000432', 'IFSC must be 11 characters'],
+    ['SB1N0004321', 'IFSC must start with a 4-letter bank code'],
+    ['SBIN1004321', 'The 5th character of an IFSC must be 0'],
+    ['SBIN0-04321', 'IFSC branch code must be letters and digits'],
+  ])('explains what is wrong with %s', (code, problem) => {
+    expect(validateIfsc(code)).toBe(problem);
+  });
+});
+
+describe('bank codes', () => {
+  it('matches a bank by its name or an alias, including merged banks', () => {
+    expect(ifscMatchesBank('SBIN0004321', 'State Bank of India')).toBe(true);
+    expect(ifscMatchesBank('SBIN0004321', 'SBI')).toBe(true);
+    expect(ifscMatchesBank('BARB0VJXXXX', 'Vijaya Bank')).toBe(true);
+    expect(ifscMatchesBank('SBIN0004321', 'Canara Bank')).toBe(false);
+  });
+
+  it('cannot tell for a bank code outside the table', () => {
+    expect(ifscMatchesBank('ZZZZ0000001', 'State Bank of India')).toBeUndefined();
+    expect(ifscProblems('ZZZZ0000001', 'State Bank of India')).toEqual(['Bank code ZZZZ is not in the bank-code table']);
+  });
+
+  it('reports a code that belongs to another bank', () => {
+    expect(ifscProblems('PUNB0012300', 'State Bank of India')).toEqual([
+      'Bank code PUNB belongs to Punjab National Bank, not State Bank of India',
+    ]);
+  });
+
+  it('gives aliases the same canonical name', () => {
+    expect(canonicalBankName('SBI')).toBe(canonicalBankName('The State Bank of India Ltd.'));
+    expect(canonicalBankName('Some Co-operative Bank')).toBe('some co operative bank');
+  });
+});
@@ -0,0 +1,57 @@
+import { BANK_CODES } from '../data/bankCodes';
+
+// Four letters for the bank, a reserved 0, then six letters or digits for the branch.
+export const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+export const normalizeIfsc = (code: string) => code.trim().toUpperCase();
+
+// Returns why a code is not a well-formed IFSC, or null when it is.
+export const validateIfsc = (code: string): string | null => {
+  const ifsc = normalizeIfsc(code);
+  if (ifsc.length !== 11) return 'IFSC must be 11 characters';
+  if (!/^[A-Z]{4}/.test(ifsc)) return 'IFSC must start with a 4-letter bank code';
+  if (ifsc[4] !== '0') return 'The 5th character of an IFSC must be 0';
+  if (!IFSC_PATTERN.test(ifsc)) return 'IFSC branch code must be letters and digits';
+  return null;
+};
+
+export const bankCodeOf = (code: string) => normalizeIfsc(code).slice(0, 4);
+
+export const bankForIfsc = (code: string) => BANK_CODES[bankCodeOf(code)];
+
+const normalizeBankName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\b(the|ltd|limited)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// The bank-code table's name for `bankName` when it is a known name or alias, so
+// "SBI" and "State Bank of India" compare equal; otherwise the name normalized.
+export const canonicalBankName = (bankName: string) => {
+  const name = normalizeBankName(bankName);
+  const entry = Object.values(BANK_CODES).find(({ name: known, aliases }) =>
+    [known, ...(aliases ?? [])].some(alias => normalizeBankName(alias) === name)
+  );
+  return entry ? normalizeBankName(entry.name) : name;
+};
+
+// Whether the IFSC's bank code belongs to `bankName`; undefined when the code is not in the table.
+export const ifscMatchesBank = (code: string, bankName: string) => {
+  const entry = bankForIfsc(code);
+  if (!entry) return undefined;
+  const name = normalizeBankName(bankName);
+  return [entry.name, ...(entry.aliases ?? [])].some(known => normalizeBankName(known) === name);
+};
+
+// Problems to show next to an IFSC: a malformed code, or a bank code that doesn't fit the bank.
+export const ifscProblems = (code: string, bankName: string) => {
+  const formatError = validateIfsc(code);
+  if (formatError) return [formatError];
+  const matches = ifscMatchesBank(code, bankName);
+  if (matches === undefined) return [`Bank code ${bankCodeOf(code)} is not in the bank-code table`];
+  if (!matches) return [`Bank code ${bankCodeOf(code)} belongs to ${bankForIfsc(code).name}, not ${bankName}`];
+  return [];
+};
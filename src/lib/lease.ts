@@ -0,0 +1,68 @@
+import type { Bank } from '../types/bank';
+import { ClaimConflictError, type BankRepository } from './repository';
+
+// A claim lapses if its heartbeat stops for this long (e.g. the tab was closed).
+export const DEFAULT_LEASE_SECONDS = 15 * 60;
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+export class LeaseLostError extends Error {
+  readonly bankId: number;
+
+  constructor(bankId: number) {
+    super(`Claim on bank ${bankId} has been lost`);
+    this.name = 'LeaseLostError';
+    this.bankId = bankId;
+  }
+}
+
+// Only in-progress claims carry `claimedAt`; a submitted bank keeps its
+// `userName` with no lease, so it never expires back into the queue.
+export const leaseExpiresAt = (bank: Bank) =>
+  bank.claimedAt
+    ? new Date(bank.claimedAt).getTime() + (bank.leaseSeconds || DEFAULT_LEASE_SECONDS) * 1000
+    : null;
+
+export const isLeaseExpired = (bank: Bank, now = Date.now()) => {
+  const expiresAt = leaseExpiresAt(bank);
+  return expiresAt !== null && expiresAt <= now;
+};
+
+export const isAssigned = (bank: Bank, now = Date.now()) => !!bank.userName && !isLeaseExpired(bank, now);
+
+// A submitted bank keeps its caller but drops `claimedAt`.
+export const isCompleted = (bank: Bank) => !!bank.userName && !bank.claimedAt;
+
+// Extends the lease on a bank we are still working on. Throws LeaseLostError if
+// the lease expired and someone else has claimed the bank since.
+export const renewLease = async (repository: BankRepository, bank: Bank) => {
+  const current = await repository.get(bank.id);
+  if (!bank.claimToken || current.claimToken !== bank.claimToken) {
+    throw new LeaseLostError(bank.id);
+  }
+  return repository.update(bank.id, { claimedAt: new Date().toISOString() });
+};
+
+export const findStaleClaims = (banks: Bank[], now = Date.now()) =>
+  banks.filter(bank => bank.userName && isLeaseExpired(bank, now));
+
+// Releases the claim `bank` was listed with. A bank claimed again since the list was
+// read is left alone, and null is returned for it.
+const releaseIfUnchanged = async (repository: BankRepository, bank: Bank) => {
+  try {
+    return await repository.release(bank.id, bank.claimToken ?? '');
+  } catch (error) {
+    if (error instanceof ClaimConflictError) return null;
+    throw error;
+  }
+};
+
+const releaseAll = async (repository: BankRepository, banks: Bank[]) =>
+  (await Promise.all(banks.map(bank => releaseIfUnchanged(repository, bank)))).filter((bank): bank is Bank => bank !== null);
+
+// Supervisor action: hand every expired claim back to the queue.
+export const releaseStaleClaims = async (repository: BankRepository, now = Date.now()) =>
+  releaseAll(repository, findStaleClaims(await repository.list(), now));
+
+// Hands back the banks `userName` is still working on, e.g. when they sign out.
+export const releaseClaimsOf = async (repository: BankRepository, userName: string, now = Date.now()) =>
+  releaseAll(repository, (await repository.list()).filter(bank => bank.userName === userName && !!bank.claimedAt && !isLeaseExpired(bank, now)));
@@ -0,0 +1,98 @@
+import type { Bank } from '../types/bank';
+import type { LetterSettings } from './letterTemplates';
+import { toCSV } from './csv';
+
+export type LetterExportRequest =
+  | { type: 'start'; banks: Bank[]; settings: LetterSettings }
+  | { type: 'cancel' }
+  | { type: 'resume' };
+
+export type LetterExportEvent =
+  | { type: 'progress'; done: number; total: number; failed: number }
+  // A slice of the ZIP archive, in order.
+  | { type: 'chunk'; data: Uint8Array }
+  | { type: 'cancelled'; done: number }
+  | { type: 'complete'; done: number; failed: number }
+  | { type: 'error'; message: string };
+
+export interface ManifestEntry {
+  fileName: string;
+  bank: Bank;
+  status: 'ok' | 'failed';
+  error?: string;
+}
+
+const safeName = (value: string) => value.trim().replace(/[^a-zA-Z0-9-]+/g, '_');
+
+export const letterFileName = (bank: Bank) =>
+  `${bank.ufi}_${safeName(bank.bankName)}_${safeName(bank.branchName)}_letter.pdf`;
+
+export const buildManifestCSV = (entries: ManifestEntry[]) =>
+  toCSV(
+    ['file', 'ufi', 'ifscCode', 'bankName', 'branchName', 'status', 'error'],
+    entries.map(({ fileName, bank, status, error }) =>
+      [fileName, bank.ufi, bank.ifscCode, bank.bankName, bank.branchName, status, error]
+    )
+  );
+
+interface LetterExportHandlers {
+  onProgress: (done: number, total: number, failed: number) => void;
+  onCancelled: (done: number) => void;
+  onComplete: (zip: Blob, failed: number) => void;
+  onError: (message: string) => void;
+}
+
+// Runs the export in a web worker. Cancelling stops after the current letter and
+// keeps what was produced so far, so the export can be resumed where it stopped.
+export const startLetterExport = (banks: Bank[], settings: LetterSettings, handlers: LetterExportHandlers) => {
+  const worker = new Worker(new URL('../workers/letterExport.worker.tsx', import.meta.url), { type: 'module' });
+  const chunks: Uint8Array[] = [];
+  const send = (request: LetterExportRequest) => worker.postMessage(request);
+
+  worker.onmessage = ({ data: event }: MessageEvent<LetterExportEvent>) => {
+    switch (event.type) {
+      case 'progress':
+        handlers.onProgress(event.done, event.total, event.failed);
+        break;
+      case 'chunk':
+        chunks.push(event.data);
+        break;
+      case 'cancelled':
+        handlers.onCancelled(event.done);
+        break;
+      case 'complete':
+        worker.terminate();
+        handlers.onComplete(new Blob(chunks, { type: 'application/zip' }), event.failed);
+        break;
+      case 'error':
+        worker.terminate();
+        handlers.onError(event.message);
+        break;
+    }
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    handlers.onError(event.message);
+  };
+
+  send({ type: 'start', banks, settings });
+
+  return {
+    cancel: () => send({ type: 'cancel' }),
+    resume: () => send({ type: 'resume' }),
+    discard: () => worker.terminate(),
+  };
+};
+
+export type LetterExport = ReturnType<typeof startLetterExport>;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,40 @@
+import { Font } from '@react-pdf/renderer';
+import devanagari from '@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-devanagari-400-normal.woff?url';
+import bengali from '@fontsource/noto-sans-bengali/files/noto-sans-bengali-bengali-400-normal.woff?url';
+import tamil from '@fontsource/noto-sans-tamil/files/noto-sans-tamil-tamil-400-normal.woff?url';
+import telugu from '@fontsource/noto-sans-telugu/files/noto-sans-telugu-telugu-400-normal.woff?url';
+import kannada from '@fontsource/noto-sans-kannada/files/noto-sans-kannada-kannada-400-normal.woff?url';
+import gujarati from '@fontsource/noto-sans-gujarati/files/noto-sans-gujarati-gujarati-400-normal.woff?url';
+import type { LanguageCode } from './regions';
+
+// Helvetica has no Indic glyphs. Each script gets a Noto Sans font holding only
+// that script; Latin text in the same line (bank names, IFSC, PINs) falls back to Helvetica.
+const SCRIPT_FONTS = {
+  NotoSansDevanagari: devanagari,
+  NotoSansBengali: bengali,
+  NotoSansTamil: tamil,
+  NotoSansTelugu: telugu,
+  NotoSansKannada: kannada,
+  NotoSansGujarati: gujarati,
+};
+
+type ScriptFont = keyof typeof SCRIPT_FONTS;
+
+const LANGUAGE_FONTS: Partial<Record<LanguageCode, ScriptFont>> = {
+  hi: 'NotoSansDevanagari',
+  mr: 'NotoSansDevanagari',
+  kok: 'NotoSansDevanagari',
+  bn: 'NotoSansBengali',
+  as: 'NotoSansBengali',
+  ta: 'NotoSansTamil',
+  te: 'NotoSansTelugu',
+  kn: 'NotoSansKannada',
+  gu: 'NotoSansGujarati',
+};
+
+Object.entries(SCRIPT_FONTS).forEach(([family, src]) => Font.register({ family, src }));
+
+export const letterFontFamily = (language: LanguageCode): string | string[] => {
+  const font = LANGUAGE_FONTS[language];
+  return font ? [font, 'Helvetica'] : 'Helvetica';
+};
@@ -0,0 +1,151 @@
+import type { Bank } from '../types/bank';
+
+export type LetterTemplateId = 'first_request' | 'reminder' | 'thank_you' | 'correction_confirmation';
+
+export type DateFormat = 'ordinal' | 'long' | 'numeric' | 'iso';
+
+// `regional` and `bilingual` pick the language from the branch's state, falling
+// back to English where the template has no translation for it.
+export type LetterLanguageMode = 'english' | 'regional' | 'bilingual';
+
+export interface LetterTemplate {
+  id: LetterTemplateId;
+  name: string;
+  // Each entry is one paragraph. Two entries stand alone as blocks:
+  // `{{rbiAddress}}` for the indented address on record and `{{qrCode}}` for the QR image.
+  body: string[];
+}
+
+export interface LetterSettings {
+  templateId: LetterTemplateId;
+  dateFormat: DateFormat;
+  languageMode: LetterLanguageMode;
+}
+
+export const RBI_ADDRESS_BLOCK = '{{rbiAddress}}';
+export const QR_CODE_BLOCK = '{{qrCode}}';
+
+export const LETTER_TEMPLATES: Record<LetterTemplateId, LetterTemplate> = {
+  first_request: {
+    id: 'first_request',
+    name: 'First Request',
+    body: [
+      'We are a partner of Google and are currently in the process of updating bank branch addresses on Google Map. During this process, we noticed that the address listed for your branch, according to the RBI records, appears to be inaccurate or incomplete.',
+      'As per the RBI records, the address is listed as:',
+      RBI_ADDRESS_BLOCK,
+      'To ensure the accuracy of our records and to help users easily locate your branch, we kindly request you to share the correct and complete branch address, along with the accurate IFSC code.',
+      'Please scan the QR code below and share your details, so we can update our database accordingly.',
+      QR_CODE_BLOCK,
+      'This effort is aimed at ensuring that the public has access to accurate information, allowing them to access banking facilities smoothly and without confusion.',
+      'Thank you for your cooperation.',
+    ],
+  },
+  reminder: {
+    id: 'reminder',
+    name: 'Reminder',
+    body: [
+      'We recently wrote to you regarding the address of the {{branchName}} branch (IFSC {{ifscCode}}) on Google Map. We have not yet received a response and are writing again as a reminder.',
+      'As per the RBI records, the address is listed as:',
+      RBI_ADDRESS_BLOCK,
+      'We kindly request you to confirm or correct this address, along with the IFSC code, at your earliest convenience by scanning the QR code below.',
+      QR_CODE_BLOCK,
+      'If you have already responded, please ignore this letter. Thank you for your cooperation.',
+    ],
+  },
+  thank_you: {
+    id: 'thank_you',
+    name: 'Thank You',
+    body: [
+      'Thank you for confirming the details of the {{branchName}} branch (IFSC {{ifscCode}}, UFI {{ufi}}).',
+      'Your response has been recorded, and the listing will be updated on Google Map so that customers can locate your branch easily.',
+      'Should any of these details change in the future, you can share the update with us at any time by scanning the QR code below.',
+      QR_CODE_BLOCK,
+      'We appreciate your support.',
+    ],
+  },
+  correction_confirmation: {
+    id: 'correction_confirmation',
+    name: 'Correction Confirmation',
+    body: [
+      'Based on the information shared for your branch, we have recorded the following corrections to the RBI listing:',
+      'Branch name: {{updatedBranchName}}',
+      'Address: {{updatedAddress}}',
+      'IFSC code: {{correctedIfsc}}',
+      'If any of these details are incorrect, please scan the QR code below and let us know, so we can correct our database before the listing is published.',
+      QR_CODE_BLOCK,
+      'Thank you for your cooperation.',
+    ],
+  },
+};
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  ordinal: '17th June 2025',
+  long: 'June 17, 2025',
+  numeric: '17/06/2025',
+  iso: '2025-06-17',
+};
+
+export const LANGUAGE_MODE_LABELS: Record<LetterLanguageMode, string> = {
+  english: 'English',
+  regional: 'Regional language',
+  bilingual: 'English + regional',
+};
+
+export const DEFAULT_LETTER_SETTINGS: LetterSettings = {
+  templateId: 'first_request',
+  dateFormat: 'ordinal',
+  languageMode: 'english',
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const ordinalSuffix = (day: number) => {
+  if (day % 100 >= 11 && day % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][day % 10] ?? 'th';
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const formatLetterDate = (date: Date, format: DateFormat) => {
+  const day = date.getDate();
+  const month = date.getMonth();
+  const year = date.getFullYear();
+  switch (format) {
+    case 'ordinal':
+      return `${day}${ordinalSuffix(day)} ${MONTHS[month]} ${year}`;
+    case 'long':
+      return `${MONTHS[month]} ${day}, ${year}`;
+    case 'numeric':
+      return `${pad(day)}/${pad(month + 1)}/${year}`;
+    case 'iso':
+      return `${year}-${pad(month + 1)}-${pad(day)}`;
+  }
+};
+
+// Fills `{{field}}` placeholders from the bank. Unknown placeholders are left as-is
+// so a typo in a template shows up in the preview instead of silently disappearing.
+export const fillTemplate = (text: string, bank: Bank, date: string) => {
+  const values: Record<string, string> = {
+    bankName: bank.bankName,
+    branchName: bank.branchName,
+    address: bank.address,
+    updatedAddress: bank.updateAddress || bank.address,
+    updatedBranchName: bank.updatedBranchName || bank.branchName,
+    ifscCode: bank.ifscCode,
+    correctedIfsc: bank.correctedIfsc || bank.ifscCode,
+    ufi: String(bank.ufi),
+    date,
+  };
+  return text.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+};
+
+export const loadLetterSettings = (): LetterSettings => {
+  try {
+    return { ...DEFAULT_LETTER_SETTINGS, ...JSON.parse(localStorage.getItem('letterSettings') || '{}') };
+  } catch {
+    return DEFAULT_LETTER_SETTINGS;
+  }
+};
+
+export const saveLetterSettings = (settings: LetterSettings) =>
+  localStorage.setItem('letterSettings', JSON.stringify(settings));
@@ -0,0 +1,191 @@
+import type { Bank } from '../types/bank';
+import {
+  LETTER_TEMPLATES,
+  QR_CODE_BLOCK,
+  RBI_ADDRESS_BLOCK,
+  type LetterLanguageMode,
+  type LetterTemplateId,
+} from './letterTemplates';
+import { LANGUAGE_NAMES, detectState, type LanguageCode } from './regions';
+
+export interface LetterLabels {
+  dated: string;
+  to: string;
+  branchManager: string;
+  salutation: string;
+}
+
+interface LetterTranslation {
+  labels: LetterLabels;
+  // Templates without a translation are sent in English.
+  bodies: Partial<Record<LetterTemplateId, string[]>>;
+}
+
+export const ENGLISH_LABELS: LetterLabels = {
+  dated: 'Dated:',
+  to: 'To',
+  branchManager: 'The Branch Manager',
+  salutation: 'Dear Sir/Madam,',
+};
+
+const LETTER_TRANSLATIONS: Partial<Record<LanguageCode, LetterTranslation>> = {
+  hi: {
+    labels: { dated: 'दिनांक:', to: 'सेवा में', branchManager: 'शाखा प्रबंधक', salutation: 'महोदय/महोदया,' },
+    bodies: {
+      first_request: [
+        'हम Google के भागीदार हैं और वर्तमान में Google Map पर बैंक शाखाओं के पते अद्यतन करने की प्रक्रिया में हैं। इस प्रक्रिया के दौरान हमने पाया कि RBI के रिकॉर्ड के अनुसार आपकी शाखा का सूचीबद्ध पता गलत या अधूरा प्रतीत होता है।',
+        'RBI के रिकॉर्ड के अनुसार पता इस प्रकार दर्ज है:',
+        RBI_ADDRESS_BLOCK,
+        'हमारे रिकॉर्ड की सटीकता सुनिश्चित करने और ग्राहकों को आपकी शाखा आसानी से ढूँढने में सहायता के लिए, कृपया शाखा का सही और पूरा पता तथा सही IFSC कोड साझा करें।',
+        'कृपया नीचे दिया गया QR कोड स्कैन करके अपना विवरण साझा करें, ताकि हम अपना डेटाबेस अद्यतन कर सकें।',
+        QR_CODE_BLOCK,
+        'इस प्रयास का उद्देश्य यह सुनिश्चित करना है कि जनता को सटीक जानकारी मिले, जिससे वे बिना किसी भ्रम के बैंकिंग सुविधाओं का लाभ उठा सकें।',
+        'आपके सहयोग के लिए धन्यवाद।',
+      ],
+      reminder: [
+        'हमने हाल ही में Google Map पर {{branchName}} शाखा (IFSC {{ifscCode}}) के पते के संबंध में आपको पत्र लिखा था। हमें अभी तक आपका उत्तर प्राप्त नहीं हुआ है, इसलिए हम स्मरण हेतु पुनः लिख रहे हैं।',
+        'RBI के रिकॉर्ड के अनुसार पता इस प्रकार दर्ज है:',
+        RBI_ADDRESS_BLOCK,
+        'कृपया नीचे दिया गया QR कोड स्कैन करके यथाशीघ्र इस पते और IFSC कोड की पुष्टि करें या उसे सही करें।',
+        QR_CODE_BLOCK,
+        'यदि आप पहले ही उत्तर दे चुके हैं, तो कृपया इस पत्र को अनदेखा करें। आपके सहयोग के लिए धन्यवाद।',
+      ],
+      thank_you: [
+        '{{branchName}} शाखा (IFSC {{ifscCode}}, UFI {{ufi}}) के विवरण की पुष्टि करने के लिए धन्यवाद।',
+        'आपका उत्तर दर्ज कर लिया गया है और Google Map पर सूची अद्यतन कर दी जाएगी, ताकि ग्राहक आपकी शाखा आसानी से ढूँढ सकें।',
+        'भविष्य में इनमें से किसी विवरण में परिवर्तन होने पर, आप नीचे दिए गए QR कोड को स्कैन करके कभी भी हमें सूचित कर सकते हैं।',
+        QR_CODE_BLOCK,
+        'आपके सहयोग के लिए हम आभारी हैं।',
+      ],
+      correction_confirmation: [
+        'आपकी शाखा के लिए साझा की गई जानकारी के आधार पर, हमने RBI सूची में निम्नलिखित सुधार दर्ज किए हैं:',
+        'शाखा का नाम: {{updatedBranchName}}',
+        'पता: {{updatedAddress}}',
+        'IFSC कोड: {{correctedIfsc}}',
+        'यदि इनमें से कोई विवरण गलत है, तो कृपया नीचे दिया गया QR कोड स्कैन करके हमें बताएँ, ताकि सूची प्रकाशित होने से पहले हम अपना डेटाबेस सही कर सकें।',
+        QR_CODE_BLOCK,
+        'आपके सहयोग के लिए धन्यवाद।',
+      ],
+    },
+  },
+  mr: {
+    labels: { dated: 'दिनांक:', to: 'प्रति', branchManager: 'शाखा व्यवस्थापक', salutation: 'महोदय/महोदया,' },
+    bodies: {
+      first_request: [
+        'आम्ही Google चे भागीदार आहोत आणि सध्या Google Map वर बँक शाखांचे पत्ते अद्ययावत करण्याचे काम करत आहोत. या प्रक्रियेदरम्यान आमच्या लक्षात आले की RBI च्या नोंदींनुसार आपल्या शाखेचा नोंदवलेला पत्ता चुकीचा किंवा अपूर्ण असल्याचे दिसते.',
+        'RBI च्या नोंदींनुसार पत्ता पुढीलप्रमाणे नोंदवलेला आहे:',
+        RBI_ADDRESS_BLOCK,
+        'आमच्या नोंदी अचूक राहाव्यात आणि ग्राहकांना आपली शाखा सहज सापडावी यासाठी, कृपया शाखेचा योग्य व संपूर्ण पत्ता तसेच अचूक IFSC कोड कळवावा.',
+        'कृपया खालील QR कोड स्कॅन करून आपली माहिती द्यावी, जेणेकरून आम्ही आमचा डेटाबेस अद्ययावत करू शकू.',
+        QR_CODE_BLOCK,
+        'लोकांना अचूक माहिती मिळावी आणि त्यांना कोणत्याही गोंधळाशिवाय बँकिंग सुविधांचा लाभ घेता यावा, हा या प्रयत्नाचा उद्देश आहे.',
+        'आपल्या सहकार्याबद्दल धन्यवाद.',
+      ],
+    },
+  },
+  bn: {
+    labels: { dated: 'তারিখ:', to: 'প্রতি', branchManager: 'শাখা ব্যবস্থাপক', salutation: 'মহাশয়/মহাশয়া,' },
+    bodies: {
+      first_request: [
+        'আমরা Google-এর একটি অংশীদার সংস্থা এবং বর্তমানে Google Map-এ ব্যাংক শাখার ঠিকানা হালনাগাদ করার কাজ করছি। এই প্রক্রিয়ায় আমরা লক্ষ্য করেছি যে RBI-এর নথি অনুযায়ী আপনার শাখার তালিকাভুক্ত ঠিকানাটি ভুল বা অসম্পূর্ণ বলে মনে হচ্ছে।',
+        'RBI-এর নথি অনুযায়ী ঠিকানাটি এভাবে তালিকাভুক্ত আছে:',
+        RBI_ADDRESS_BLOCK,
+        'আমাদের তথ্যের নির্ভুলতা নিশ্চিত করতে এবং গ্রাহকরা যাতে সহজে আপনার শাখা খুঁজে পান, সেজন্য অনুগ্রহ করে শাখার সঠিক ও সম্পূর্ণ ঠিকানা এবং সঠিক IFSC কোড আমাদের জানান।',
+        'অনুগ্রহ করে নিচের QR কোডটি স্ক্যান করে আপনার তথ্য জানান, যাতে আমরা আমাদের ডেটাবেস হালনাগাদ করতে পারি।',
+        QR_CODE_BLOCK,
+        'এই উদ্যোগের লক্ষ্য হল জনসাধারণ যেন সঠিক তথ্য পান এবং কোনো বিভ্রান্তি ছাড়াই ব্যাংকিং পরিষেবা ব্যবহার করতে পারেন।',
+        'আপনার সহযোগিতার জন্য ধন্যবাদ।',
+      ],
+    },
+  },
+  ta: {
+    labels: { dated: 'தேதி:', to: 'பெறுநர்', branchManager: 'கிளை மேலாளர்', salutation: 'அன்புடையீர்,' },
+    bodies: {
+      first_request: [
+        'நாங்கள் Google நிறுவனத்தின் கூட்டாளர்கள்; தற்போது Google Map-இல் வங்கிக் கிளைகளின் முகவரிகளைப் புதுப்பிக்கும் பணியில் ஈடுபட்டுள்ளோம். இந்தப் பணியின் போது, RBI பதிவுகளின்படி உங்கள் கிளையின் முகவரி தவறாகவோ முழுமையற்றதாகவோ இருப்பதைக் கண்டறிந்தோம்.',
+        'RBI பதிவுகளின்படி முகவரி பின்வருமாறு பதிவு செய்யப்பட்டுள்ளது:',
+        RBI_ADDRESS_BLOCK,
+        'எங்கள் பதிவுகளின் துல்லியத்தை உறுதிசெய்யவும், வாடிக்கையாளர்கள் உங்கள் கிளையை எளிதில் கண்டறியவும், கிளையின் சரியான மற்றும் முழுமையான முகவரியையும் சரியான IFSC குறியீட்டையும் பகிருமாறு அன்புடன் கேட்டுக்கொள்கிறோம்.',
+        'கீழே உள்ள QR குறியீட்டை ஸ்கேன் செய்து உங்கள் விவரங்களைப் பகிரவும்; அதன் மூலம் எங்கள் தரவுத்தளத்தைப் புதுப்பிக்க முடியும்.',
+        QR_CODE_BLOCK,
+        'பொதுமக்கள் துல்லியமான தகவல்களைப் பெற்று, எவ்விதக் குழப்பமுமின்றி வங்கிச் சேவைகளைப் பயன்படுத்துவதை உறுதிசெய்வதே இந்த முயற்சியின் நோக்கம்.',
+        'உங்கள் ஒத்துழைப்புக்கு நன்றி.',
+      ],
+    },
+  },
+  te: {
+    labels: { dated: 'తేదీ:', to: 'కు', branchManager: 'శాఖ నిర్వాహకులు', salutation: 'అయ్యా/అమ్మా,' },
+    bodies: {
+      first_request: [
+        'మేము Google భాగస్వామి సంస్థ, ప్రస్తుతం Google Map లో బ్యాంకు శాఖల చిరునామాలను నవీకరించే పనిలో ఉన్నాము. ఈ ప్రక్రియలో, RBI రికార్డుల ప్రకారం మీ శాఖ చిరునామా తప్పుగా లేదా అసంపూర్ణంగా ఉన్నట్లు గమనించాము.',
+        'RBI రికార్డుల ప్రకారం చిరునామా ఈ విధంగా నమోదై ఉంది:',
+        RBI_ADDRESS_BLOCK,
+        'మా రికార్డుల ఖచ్చితత్వాన్ని నిర్ధారించడానికి మరియు వినియోగదారులు మీ శాఖను సులభంగా కనుగొనడానికి, దయచేసి శాఖ యొక్క సరైన మరియు పూర్తి చిరునామాను, సరైన IFSC కోడ్‌తో పాటు పంచుకోండి.',
+        'దయచేసి క్రింది QR కోడ్‌ను స్కాన్ చేసి మీ వివరాలను పంచుకోండి, తద్వారా మేము మా డేటాబేస్‌ను నవీకరించగలము.',
+        QR_CODE_BLOCK,
+        'ప్రజలకు ఖచ్చితమైన సమాచారం అందేలా చేసి, ఎలాంటి గందరగోళం లేకుండా బ్యాంకింగ్ సౌకర్యాలను వినియోగించుకునేలా చేయడమే ఈ ప్రయత్నం లక్ష్యం.',
+        'మీ సహకారానికి ధన్యవాదాలు.',
+      ],
+    },
+  },
+  kn: {
+    labels: { dated: 'ದಿನಾಂಕ:', to: 'ಗೆ', branchManager: 'ಶಾಖಾ ವ್ಯವಸ್ಥಾಪಕರು', salutation: 'ಮಾನ್ಯರೇ,' },
+    bodies: {
+      first_request: [
+        'ನಾವು Google ನ ಪಾಲುದಾರರಾಗಿದ್ದು, ಪ್ರಸ್ತುತ Google Map ನಲ್ಲಿ ಬ್ಯಾಂಕ್ ಶಾಖೆಗಳ ವಿಳಾಸಗಳನ್ನು ನವೀಕರಿಸುವ ಕಾರ್ಯದಲ್ಲಿ ತೊಡಗಿದ್ದೇವೆ. ಈ ಪ್ರಕ್ರಿಯೆಯಲ್ಲಿ, RBI ದಾಖಲೆಗಳ ಪ್ರಕಾರ ನಿಮ್ಮ ಶಾಖೆಯ ವಿಳಾಸವು ತಪ್ಪಾಗಿರುವಂತೆ ಅಥವಾ ಅಪೂರ್ಣವಾಗಿರುವಂತೆ ಕಂಡುಬಂದಿದೆ.',
+        'RBI ದಾಖಲೆಗಳ ಪ್ರಕಾರ ವಿಳಾಸವು ಈ ರೀತಿ ದಾಖಲಾಗಿದೆ:',
+        RBI_ADDRESS_BLOCK,
+        'ನಮ್ಮ ದಾಖಲೆಗಳ ನಿಖರತೆಯನ್ನು ಖಚಿತಪಡಿಸಲು ಮತ್ತು ಗ್ರಾಹಕರು ನಿಮ್ಮ ಶಾಖೆಯನ್ನು ಸುಲಭವಾಗಿ ಹುಡುಕಲು, ದಯವಿಟ್ಟು ಶಾಖೆಯ ಸರಿಯಾದ ಮತ್ತು ಸಂಪೂರ್ಣ ವಿಳಾಸವನ್ನು ಹಾಗೂ ಸರಿಯಾದ IFSC ಕೋಡ್ ಅನ್ನು ಹಂಚಿಕೊಳ್ಳಿ.',
+        'ದಯವಿಟ್ಟು ಕೆಳಗಿನ QR ಕೋಡ್ ಅನ್ನು ಸ್ಕ್ಯಾನ್ ಮಾಡಿ ನಿಮ್ಮ ವಿವರಗಳನ್ನು ಹಂಚಿಕೊಳ್ಳಿ, ಇದರಿಂದ ನಾವು ನಮ್ಮ ಡೇಟಾಬೇಸ್ ಅನ್ನು ನವೀಕರಿಸಬಹುದು.',
+        QR_CODE_BLOCK,
+        'ಸಾರ್ವಜನಿಕರಿಗೆ ನಿಖರವಾದ ಮಾಹಿತಿ ದೊರೆತು, ಯಾವುದೇ ಗೊಂದಲವಿಲ್ಲದೆ ಬ್ಯಾಂಕಿಂಗ್ ಸೌಲಭ್ಯಗಳನ್ನು ಬಳಸಲು ಸಾಧ್ಯವಾಗುವಂತೆ ಮಾಡುವುದು ಈ ಪ್ರಯತ್ನದ ಉದ್ದೇಶವಾಗಿದೆ.',
+        'ನಿಮ್ಮ ಸಹಕಾರಕ್ಕೆ ಧನ್ಯವಾದಗಳು.',
+      ],
+    },
+  },
+  gu: {
+    labels: { dated: 'તારીખ:', to: 'પ્રતિ', branchManager: 'શાખા વ્યવસ્થાપક', salutation: 'માનનીય મહોદય/મહોદયા,' },
+    bodies: {
+      first_request: [
+        'અમે Google ના ભાગીદાર છીએ અને હાલમાં Google Map પર બેંક શાખાઓના સરનામાં અપડેટ કરવાની પ્રક્રિયામાં છીએ. આ પ્રક્રિયા દરમિયાન અમે નોંધ્યું કે RBI ના રેકોર્ડ મુજબ આપની શાખાનું સરનામું ખોટું અથવા અધૂરું જણાય છે.',
+        'RBI ના રેકોર્ડ મુજબ સરનામું આ પ્રમાણે નોંધાયેલ છે:',
+        RBI_ADDRESS_BLOCK,
+        'અમારા રેકોર્ડની ચોકસાઈ સુનિશ્ચિત કરવા અને ગ્રાહકો આપની શાખા સરળતાથી શોધી શકે તે માટે, કૃપા કરીને શાખાનું સાચું અને સંપૂર્ણ સરનામું તથા સાચો IFSC કોડ જણાવશો.',
+        'કૃપા કરીને નીચેનો QR કોડ સ્કેન કરીને આપની વિગતો જણાવો, જેથી અમે અમારો ડેટાબેઝ અપડેટ કરી શકીએ.',
+        QR_CODE_BLOCK,
+        'આ પ્રયાસનો હેતુ એ સુનિશ્ચિત કરવાનો છે કે લોકોને સચોટ માહિતી મળે અને તેઓ કોઈ પણ મૂંઝવણ વિના બેંકિંગ સુવિધાઓનો લાભ લઈ શકે.',
+        'આપના સહકાર બદલ આભાર.',
+      ],
+    },
+  },
+};
+
+export interface LetterContent {
+  language: LanguageCode;
+  labels: LetterLabels;
+  body: string[];
+}
+
+export const letterContent = (templateId: LetterTemplateId, language: LanguageCode): LetterContent => {
+  const translated = LETTER_TRANSLATIONS[language]?.bodies[templateId];
+  if (!translated) {
+    return { language: 'en', labels: ENGLISH_LABELS, body: LETTER_TEMPLATES[templateId].body };
+  }
+  return { language, labels: LETTER_TRANSLATIONS[language]!.labels, body: translated };
+};
+
+// The branch's regional language: the first language of its state that this
+// template has been translated into, or undefined when only English is available.
+export const regionalLanguageFor = (bank: Bank, templateId: LetterTemplateId) =>
+  detectState(bank.address)?.languages.find(language => !!LETTER_TRANSLATIONS[language]?.bodies[templateId]);
+
+// One entry per page of the letter, in order.
+export const letterPages = (bank: Bank, templateId: LetterTemplateId, mode: LetterLanguageMode): LetterContent[] => {
+  const regional = mode === 'english' ? undefined : regionalLanguageFor(bank, templateId);
+  if (!regional) return [letterContent(templateId, 'en')];
+  if (mode === 'regional') return [letterContent(templateId, regional)];
+  return [letterContent(templateId, 'en'), letterContent(templateId, regional)];
+};
+
+export const describeLetterLanguages = (bank: Bank, templateId: LetterTemplateId, mode: LetterLanguageMode) =>
+  letterPages(bank, templateId, mode).map(page => LANGUAGE_NAMES[page.language]).join(' + ');
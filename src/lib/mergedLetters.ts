@@ -0,0 +1,85 @@
+import type { Bank } from '../types/bank';
+import { extractPinCode } from './pinCode';
+import type { LetterSettings } from './letterTemplates';
+
+export type MergeOrder = 'pinCode' | 'bankName';
+
+export const MERGE_ORDER_LABELS: Record<MergeOrder, string> = {
+  pinCode: 'PIN code (postal sorting)',
+  bankName: 'Bank name',
+};
+
+export interface MergedLetter {
+  bank: Bank;
+  qrCodeUrl: string;
+}
+
+export type MergedLettersRequest = { banks: Bank[]; order: MergeOrder; settings: LetterSettings };
+
+export type MergedLettersEvent =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'rendering' }
+  | { type: 'complete'; pdf: Blob }
+  | { type: 'error'; message: string };
+
+export const INDEX_ROWS_PER_PAGE = 40;
+
+export const indexPageCount = (letterCount: number) => Math.max(1, Math.ceil(letterCount / INDEX_ROWS_PER_PAGE));
+
+const byBankAndBranch = (a: Bank, b: Bank) =>
+  a.bankName.localeCompare(b.bankName) || a.branchName.localeCompare(b.branchName);
+
+// Banks without a recognisable PIN go last when sorting for the post.
+export const sortBanksForMerge = (banks: Bank[], order: MergeOrder) =>
+  [...banks].sort((a, b) => {
+    if (order === 'pinCode') {
+      const pinA = extractPinCode(a.address) ?? '999999';
+      const pinB = extractPinCode(b.address) ?? '999999';
+      return pinA.localeCompare(pinB) || byBankAndBranch(a, b);
+    }
+    return byBankAndBranch(a, b);
+  });
+
+interface MergedLettersHandlers {
+  onProgress: (done: number, total: number) => void;
+  onRendering: () => void;
+  onComplete: (pdf: Blob) => void;
+  onError: (message: string) => void;
+}
+
+// Builds the merged PDF in a web worker. Returns a function that aborts the job.
+export const startMergedLettersExport = (
+  banks: Bank[],
+  order: MergeOrder,
+  settings: LetterSettings,
+  handlers: MergedLettersHandlers
+) => {
+  const worker = new Worker(new URL('../workers/mergedLetters.worker.tsx', import.meta.url), { type: 'module' });
+
+  worker.onmessage = ({ data: event }: MessageEvent<MergedLettersEvent>) => {
+    switch (event.type) {
+      case 'progress':
+        handlers.onProgress(event.done, event.total);
+        break;
+      case 'rendering':
+        handlers.onRendering();
+        break;
+      case 'complete':
+        worker.terminate();
+        handlers.onComplete(event.pdf);
+        break;
+      case 'error':
+        worker.terminate();
+        handlers.onError(event.message);
+        break;
+    }
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    handlers.onError(event.message);
+  };
+
+  worker.postMessage({ banks, order, settings } satisfies MergedLettersRequest);
+
+  return () => worker.terminate();
+};
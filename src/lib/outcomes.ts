@@ -0,0 +1,34 @@
+import type { Bank, PhoneResponse } from '../types/bank';
+
+export type Outcome = 'verified' | 'address_changed' | 'branch_renamed' | 'bank_shifted' | 'unreachable' | 'pending';
+
+export const OUTCOME_LABELS: Record<Outcome, string> = {
+  verified: 'Verified',
+  address_changed: 'Address Changed',
+  branch_renamed: 'Branch Renamed',
+  bank_shifted: 'Bank Shifted',
+  unreachable: 'Unreachable',
+  pending: 'Pending',
+};
+
+// Report order: finished outcomes first, work still to do last.
+export const OUTCOMES: Outcome[] = ['verified', 'address_changed', 'branch_renamed', 'bank_shifted', 'unreachable', 'pending'];
+
+export const UNREACHABLE_PHONE_RESPONSES: PhoneResponse[] = ['invalid_number', 'no_response', 'switched_off', 'number_not_found'];
+
+export const outcomeOf = (bank: Bank): Outcome => {
+  switch (bank.response) {
+    case 'no_change_in_address':
+      return 'verified';
+    case 'address_change':
+      return 'address_changed';
+    case 'branch_name_change':
+      return 'branch_renamed';
+    case 'bank_shift':
+      return 'bank_shifted';
+  }
+  if (bank.phoneResponse && UNREACHABLE_PHONE_RESPONSES.includes(bank.phoneResponse)) {
+    return 'unreachable';
+  }
+  return 'pending';
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { Bank } from '../types/bank';
+import {
+  banksWithPhone,
+  canonicalPhone,
+  dialledNumberProblem,
+  dialledNumberToStore,
+  isParsedPhone,
+  parsePhoneNumber,
+  type ParsedPhone,
+} from './phone';
+
+const parsed = (input: string) => {
+  const result = parsePhoneNumber(input);
+  if (!isParsedPhone(result)) throw new Error(`Expected ${input} to parse: ${result.error}`);
+  return result;
+};
+
+describe('parsePhoneNumber', () => {
+  it.each(['98765 43210', '+91-98765-43210', '0091 98765 43210', '919876543210', '09876543210'])(
+    'reads %s as a mobile',
+    input => {
+      expect(parsed(input)).toEqual({ kind: 'mobile', e164: '+919876543210', display: '+91 98765 43210' });
+    }
+  );
+
+  it('keeps the STD code of a landline written as its own group', () => {
+    expect(parsed('0124 2345678')).toEqual({ kind: 'landline', e164: '+911242345678', display: '+91 124 2345678' });
+  });
+
+  it('groups toll-free numbers', () => {
+    expect(parsed('1800 425 3800')).toEqual({ kind: 'toll_free', e164: '+9118004253800', display: '1800 425 3800' });
+  });
+
+  it.each([
+    ['', 'Phone number is required'],
+    ['98765 4321x', 'Phone number can only contain digits, spaces, hyphens, brackets and a leading +'],
+    ['+44 20 7946 0958', 'Only Indian (+91) numbers are supported'],
+    ['98765', 'Indian phone numbers have 10 digits after the country code or leading 0'],
+    ['0987654321', 'Indian phone numbers have 10 digits after the country code or leading 0'],
+  ])('rejects %j', (input, error) => {
+    expect(parsePhoneNumber(input)).toEqual({ error });
+  });
+
+  it('returns no canonical form for a number that does not parse', () => {
+    expect(canonicalPhone('12345')).toBeUndefined();
+    expect(canonicalPhone(undefined)).toBeUndefined();
+  });
+});
+
+describe('dialled numbers', () => {
+  it('checks the number for outcomes that reached someone', () => {
+    expect(dialledNumberProblem('12345', 'toll_free')).toBe('Indian phone numbers have 10 digits after the country code or leading 0');
+    expect(dialledNumberToStore('98765 43210', 'no_response')).toBe('+919876543210');
+  });
+
+  it.each(['invalid_number', 'number_not_found'] as const)('keeps a malformed number as dialled for %s', outcome => {
+    expect(dialledNumberProblem(' 12345 ', outcome)).toBeNull();
+    expect(dialledNumberToStore(' 12345 ', outcome)).toBe('12345');
+  });
+});
+
+describe('banksWithPhone', () => {
+  const bank = (id: number, bankName: string, phoneNumber?: string): Bank => ({
+    id,
+    ufi: id,
+    bankName,
+    branchName: `Branch ${id}`,
+    ifscCode: 'SBIN0000001',
+    address: 'Lucknow',
+    phoneNumber,
+  });
+
+  it('finds other branches with the number on their row or in their call history', () => {
+    const phone: ParsedPhone = parsed('98765 43210');
+    const withHistory = {
+      ...bank(3, 'Canara Bank'),
+      callHistory: [{ caller: 'a', at: '2024-01-08T10:00:00.000Z', outcome: 'no_response' as const, phoneNumber: '09876543210' }],
+    };
+    const banks = [bank(1, 'State Bank of India', '+919876543210'), bank(2, 'Canara Bank', '+919876543210'), withHistory];
+
+    expect(banksWithPhone(banks, phone, banks[0]).map(other => other.id)).toEqual([2, 3]);
+  });
+
+  it("lets a bank's toll-free number repeat across its own branches", () => {
+    const phone = parsed('1800 425 3800');
+    const banks = [bank(1, 'State Bank of India', phone.e164), bank(2, 'State Bank of India', phone.e164), bank(3, 'Canara Bank', phone.e164)];
+
+    expect(banksWithPhone(banks, phone, banks[0]).map(other => other.id)).toEqual([3]);
+  });
+});
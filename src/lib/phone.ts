@@ -0,0 +1,104 @@
+import type { Bank, PhoneResponse } from '../types/bank';
+
+export type PhoneKind = 'mobile' | 'landline' | 'toll_free';
+
+export const PHONE_KIND_LABELS: Record<PhoneKind, string> = {
+  mobile: 'Mobile',
+  landline: 'Landline',
+  toll_free: 'Toll Free',
+};
+
+export interface ParsedPhone {
+  kind: PhoneKind;
+  // Canonical form, e.g. +919876543210 or +911242345678.
+  e164: string;
+  // Grouped for reading out, e.g. +91 98765 43210 or 1800 425 3800.
+  display: string;
+}
+
+export type PhoneParseResult = ParsedPhone | { error: string };
+
+const SEPARATORS = /[\s\-().]/g;
+
+const parsed = (kind: PhoneKind, national: string, display: string): ParsedPhone => ({
+  kind,
+  e164: `+91${national}`,
+  display,
+});
+
+// Parses an Indian number written as +91/0091/91-prefixed, with a 0 trunk prefix, or bare.
+// A landline's STD code is only known when it was written as its own group (e.g. "0124 2345678").
+export const parsePhoneNumber = (input: string): PhoneParseResult => {
+  const trimmed = input.trim();
+  if (!trimmed) return { error: 'Phone number is required' };
+  if (/[^\d\s\-().+]/.test(trimmed)) return { error: 'Phone number can only contain digits, spaces, hyphens, brackets and a leading +' };
+
+  let digits = trimmed.replace(SEPARATORS, '');
+  if (digits.startsWith('+')) {
+    if (!digits.startsWith('+91')) return { error: 'Only Indian (+91) numbers are supported' };
+    digits = digits.slice(3);
+  } else if (digits.startsWith('0091')) {
+    digits = digits.slice(4);
+  } else if (digits.length === 12 && digits.startsWith('91')) {
+    digits = digits.slice(2);
+  }
+  if (/\D/.test(digits)) return { error: 'Phone number can only contain digits after the country code' };
+
+  if (/^(1800|1860)\d{6,7}$/.test(digits)) {
+    const service = digits.slice(0, 4);
+    const rest = digits.slice(4);
+    return parsed('toll_free', digits, `${service} ${rest.slice(0, rest.length - 4)} ${rest.slice(-4)}`);
+  }
+
+  const hadTrunkPrefix = digits.startsWith('0');
+  const national = hadTrunkPrefix ? digits.slice(1) : digits;
+  if (national.length !== 10) {
+    return { error: 'Indian phone numbers have 10 digits after the country code or leading 0' };
+  }
+
+  const stdGroup = trimmed.replace(/^(\+91|0091)/, '').trim().match(/^\(?0(\d{2,4})\)?[\s-]/);
+  if (hadTrunkPrefix && stdGroup) {
+    const std = stdGroup[1];
+    return parsed('landline', national, `+91 ${std} ${national.slice(std.length)}`);
+  }
+  if (/^[6-9]/.test(national)) {
+    return parsed('mobile', national, `+91 ${national.slice(0, 5)} ${national.slice(5)}`);
+  }
+  if (/^[1-5]/.test(national)) {
+    return parsed('landline', national, `+91 ${national}`);
+  }
+  return { error: 'Not a valid Indian mobile, landline or toll-free number' };
+};
+
+export const isParsedPhone = (result: PhoneParseResult): result is ParsedPhone => !('error' in result);
+
+// E.164 form of a stored number, or undefined when it doesn't parse.
+export const canonicalPhone = (input: string | undefined) => {
+  if (!input) return undefined;
+  const result = parsePhoneNumber(input);
+  return isParsedPhone(result) ? result.e164 : undefined;
+};
+
+// Outcomes recorded against the number exactly as dialled, which may not be a valid one.
+export const RAW_NUMBER_RESPONSES: PhoneResponse[] = ['invalid_number', 'number_not_found'];
+
+// Why the number can't be recorded with this outcome, or null when it can.
+export const dialledNumberProblem = (input: string, outcome: PhoneResponse) => {
+  if (RAW_NUMBER_RESPONSES.includes(outcome)) return null;
+  const result = parsePhoneNumber(input);
+  return isParsedPhone(result) ? null : result.error;
+};
+
+// What is stored for a call: the canonical number, or the input as typed for the outcomes above.
+export const dialledNumberToStore = (input: string, outcome: PhoneResponse) =>
+  RAW_NUMBER_RESPONSES.includes(outcome) ? input.trim() : canonicalPhone(input) ?? input.trim();
+
+// Other branches this number is already recorded for, on the row or in their call history.
+// A bank's shared toll-free number is expected to repeat across its own branches.
+export const banksWithPhone = (banks: Bank[], phone: ParsedPhone, bank: Bank) =>
+  banks.filter(other => {
+    if (other.id === bank.id) return false;
+    if (phone.kind === 'toll_free' && other.bankName === bank.bankName) return false;
+    const numbers = [other.phoneNumber, ...(other.callHistory ?? []).map(attempt => attempt.phoneNumber)];
+    return numbers.some(number => canonicalPhone(number) === phone.e164);
+  });
@@ -0,0 +1,35 @@
+import { PIN_PREFIX_DISTRICTS, PIN_PREFIX_STATES } from '../data/pinPrefixes';
+
+// Indian PIN codes are six digits and never start with 0. Addresses sometimes
+// write them as "122 001", so one space after the third digit is allowed.
+const PIN_PATTERN = /\b([1-9]\d{2})\s?(\d{3})\b/g;
+
+// The last PIN-shaped number in the address, which is where the PIN is normally written.
+export const extractPinCode = (address: string): string | undefined => {
+  const matches = Array.from(address.matchAll(PIN_PATTERN));
+  const last = matches[matches.length - 1];
+  return last ? `${last[1]}${last[2]}` : undefined;
+};
+
+export const isValidPinCode = (pin: string) => /^[1-9]\d{5}$/.test(pin);
+
+export interface PinLocation {
+  states: string[];
+  // Only known where the sorting district maps to one revenue district.
+  district?: string;
+}
+
+// Where a PIN code belongs, from the bundled prefix dataset.
+export const lookupPinCode = (pin: string): PinLocation | undefined => {
+  if (!isValidPinCode(pin)) return undefined;
+  const prefix = Number(pin.slice(0, 3));
+  const range = PIN_PREFIX_STATES.find(([from, to]) => prefix >= from && prefix <= to);
+  return range && { states: range[2], district: PIN_PREFIX_DISTRICTS[pin.slice(0, 3)] };
+};
+
+// Describes the clash when a PIN code belongs to a different state than `state`.
+export const pinStateConflict = (pin: string, state: string) => {
+  const location = lookupPinCode(pin);
+  if (!location || !state || location.states.includes(state)) return undefined;
+  return `PIN ${pin} is in ${location.states.join(' / ')}, not ${state}`;
+};
@@ -0,0 +1,53 @@
+import QRCode from 'qrcode';
+import type { Bank } from '../types/bank';
+import { signBankReference } from './signedReference';
+
+// Where a scanned letter lands: this app's self-service page unless configured otherwise.
+// The bank is identified only by the signed `ref` parameter. `self` also works in the letter workers.
+const QR_LINK_BASE = import.meta.env.VITE_QR_LINK_BASE ?? `${self.location.origin}/bank-update`;
+
+const QR_CODE_OPTIONS = {
+  width: 300,
+  // The signed link (about 110 characters) fits a version 7 symbol of 45 modules at
+  // this level, which still scans when printed at the 80pt letter size.
+  errorCorrectionLevel: 'M' as const,
+  margin: 2,
+  color: {
+    dark: '#000000',
+    light: '#ffffff',
+  },
+};
+
+// The link carries only a short signed reference: anything the form needs about the
+// bank is looked up after the signature and expiry have been checked.
+export const generateQRCodeData = async (bank: Bank) =>
+  `${QR_LINK_BASE}?ref=${await signBankReference(bank.id)}`;
+
+const blobToDataURL = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type};base64,${btoa(binary)}`;
+};
+
+// Renders the QR code as a PNG data URL. Inside a web worker there is no DOM
+// canvas, so the code is drawn on an OffscreenCanvas instead.
+export const generateQRCodeDataURL = async (text: string) => {
+  if (typeof document !== 'undefined') {
+    return QRCode.toDataURL(text, QR_CODE_OPTIONS);
+  }
+  const canvas = new OffscreenCanvas(QR_CODE_OPTIONS.width, QR_CODE_OPTIONS.width);
+  await QRCode.toCanvas(canvas as unknown as HTMLCanvasElement, text, QR_CODE_OPTIONS);
+  return blobToDataURL(await canvas.convertToBlob({ type: 'image/png' }));
+};
+
+export const generateQRCodeForBank = async (bank: Bank): Promise<string> => {
+  try {
+    return await generateQRCodeDataURL(await generateQRCodeData(bank));
+  } catch (err) {
+    console.error('Error generating QR code:', err);
+    return '';
+  }
+};
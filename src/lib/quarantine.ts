@@ -0,0 +1,43 @@
+// Rows that failed schema validation. They are kept out of the UI and PDFs and
+// listed on the quarantine screen until the sheet is fixed.
+
+export interface QuarantinedRow {
+  id?: number;
+  raw: unknown;
+  issues: string[];
+  seenAt: string;
+}
+
+type Listener = (rows: QuarantinedRow[]) => void;
+
+const rows = new Map<string, QuarantinedRow>();
+const listeners = new Set<Listener>();
+
+const keyOf = (row: QuarantinedRow) => (row.id !== undefined ? `id:${row.id}` : JSON.stringify(row.raw));
+
+const notify = () => {
+  const snapshot = getQuarantinedRows();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const getQuarantinedRows = () => Array.from(rows.values());
+
+export const quarantineRow = (row: Omit<QuarantinedRow, 'seenAt'>) => {
+  const entry = { ...row, seenAt: new Date().toISOString() };
+  rows.set(keyOf(entry), entry);
+  notify();
+};
+
+// Drops a row from quarantine once it validates again.
+export const clearQuarantinedRow = (id: number) => {
+  if (rows.delete(`id:${id}`)) {
+    notify();
+  }
+};
+
+export const subscribeToQuarantine = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,131 @@
+import type { Bank, BankChanges, ReconciledField, ReconciliationDecision } from '../types/bank';
+import { NEAR_IDENTICAL_SIMILARITY, addressSimilarity } from './addressSimilarity';
+import { normalizeIfsc } from './ifsc';
+import { isCompleted } from './lease';
+import { canonicalPhone } from './phone';
+import type { BankRepository } from './repository';
+
+export const RECONCILED_FIELD_LABELS: Record<ReconciledField, string> = {
+  address: 'Address',
+  branchName: 'Branch Name',
+  ifscCode: 'IFSC',
+  phoneNumber: 'Phone',
+};
+
+export type ReconciliationChoice = ReconciliationDecision['choice'];
+
+export interface FieldConflict {
+  field: ReconciledField;
+  callerValue: string;
+  branchValue: string;
+}
+
+// What each side says the bank's details are. A caller who recorded no change
+// has confirmed the RBI value, and so has a branch that confirmed its address.
+const callerValues = (bank: Bank): Record<ReconciledField, string> => ({
+  address: bank.updateAddress ?? bank.address,
+  branchName: bank.updatedBranchName ?? bank.branchName,
+  ifscCode: bank.correctedIfsc ?? bank.ifscCode,
+  phoneNumber: bank.phoneNumber ?? '',
+});
+
+const branchValues = (bank: Bank): Record<ReconciledField, string> | undefined =>
+  bank.branchResponse && {
+    address: bank.branchResponse.address ?? bank.address,
+    branchName: bank.branchResponse.branchName,
+    ifscCode: bank.branchResponse.ifscCode,
+    phoneNumber: bank.branchResponse.contactNumber,
+  };
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Differences in case, spacing, abbreviations or phone formatting are not conflicts.
+const agrees = (field: ReconciledField, a: string, b: string) => {
+  switch (field) {
+    case 'address':
+      return addressSimilarity(a, b) >= NEAR_IDENTICAL_SIMILARITY;
+    case 'branchName':
+      return normalizeName(a) === normalizeName(b);
+    case 'ifscCode':
+      return normalizeIfsc(a) === normalizeIfsc(b);
+    case 'phoneNumber':
+      return !a || !b || (canonicalPhone(a) ?? a) === (canonicalPhone(b) ?? b);
+  }
+};
+
+// A field stays settled until either side submits again after the decision.
+const isDecided = (bank: Bank, field: ReconciledField) => {
+  const latestSubmission = [bank.verifiedAt, bank.branchResponse?.submittedAt]
+    .filter((at): at is string => !!at)
+    .reduce((latest, at) => Math.max(latest, Date.parse(at)), 0);
+  return (bank.reconciliationLog ?? []).some(
+    decision => decision.field === field && Date.parse(decision.at) >= latestSubmission
+  );
+};
+
+// Fields where a called bank's caller and branch disagree and no reviewer has ruled yet.
+export const findConflicts = (bank: Bank): FieldConflict[] => {
+  const branch = branchValues(bank);
+  if (!branch || !isCompleted(bank)) return [];
+  const caller = callerValues(bank);
+  return (Object.keys(RECONCILED_FIELD_LABELS) as ReconciledField[])
+    .filter(field => !agrees(field, caller[field], branch[field]) && !isDecided(bank, field))
+    .map(field => ({ field, callerValue: caller[field], branchValue: branch[field] }));
+};
+
+export const banksNeedingReconciliation = (banks: Bank[]) =>
+  banks
+    .map(bank => ({ bank, conflicts: findConflicts(bank) }))
+    .filter(({ conflicts }) => conflicts.length > 0);
+
+// Writes a ruling into the caller's result columns, which the letters, reports and
+// exports read. A value equal to the RBI record clears the correction instead.
+const changesFor = (bank: Bank, decision: ReconciliationDecision): BankChanges => {
+  const { field, value, choice } = decision;
+  switch (field) {
+    case 'address': {
+      if (agrees('address', value, bank.address)) {
+        return { updateAddress: '', updateAddressParts: '', addressSimilarity: '' };
+      }
+      const parts = choice === 'branch' ? bank.branchResponse?.addressParts : choice === 'caller' ? bank.updateAddressParts : undefined;
+      return { updateAddress: value, updateAddressParts: parts ?? '', addressSimilarity: addressSimilarity(bank.address, value) };
+    }
+    case 'branchName':
+      return { updatedBranchName: normalizeName(value) === normalizeName(bank.branchName) ? '' : value };
+    case 'ifscCode':
+      return { correctedIfsc: normalizeIfsc(value) === normalizeIfsc(bank.ifscCode) ? '' : normalizeIfsc(value) };
+    case 'phoneNumber':
+      return { phoneNumber: canonicalPhone(value) ?? value };
+  }
+};
+
+export interface Resolution {
+  field: ReconciledField;
+  choice: ReconciliationChoice;
+  // The hand-edited value; ignored unless `choice` is 'edited'.
+  editedValue?: string;
+}
+
+// Applies the reviewer's rulings for one bank and appends them to its decision log.
+export const resolveConflicts = async (
+  repository: BankRepository,
+  bank: Bank,
+  conflicts: FieldConflict[],
+  resolutions: Resolution[],
+  reviewer: string,
+  now = new Date()
+) => {
+  const decisions = resolutions.map(({ field, choice, editedValue }): ReconciliationDecision => {
+    const conflict = conflicts.find(entry => entry.field === field);
+    if (!conflict) throw new Error(`${RECONCILED_FIELD_LABELS[field]} is not in conflict for bank ${bank.id}`);
+    const value = choice === 'caller' ? conflict.callerValue : choice === 'branch' ? conflict.branchValue : (editedValue ?? '').trim();
+    if (!value && field !== 'phoneNumber') throw new Error(`${RECONCILED_FIELD_LABELS[field]} cannot be left empty`);
+    return { ...conflict, choice, value, reviewer, at: now.toISOString() };
+  });
+
+  const changes = decisions.reduce<BankChanges>((all, decision) => ({ ...all, ...changesFor(bank, decision) }), {});
+  return repository.update(bank.id, {
+    ...changes,
+    reconciliationLog: [...(bank.reconciliationLog ?? []), ...decisions],
+  });
+};
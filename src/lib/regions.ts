@@ -0,0 +1,93 @@
+export type Region = 'north' | 'south' | 'east' | 'west' | 'central' | 'north_east';
+
+export type LanguageCode =
+  | 'en' | 'hi' | 'bn' | 'ta' | 'te' | 'kn' | 'ml' | 'mr' | 'gu' | 'pa' | 'or' | 'as' | 'ur' | 'kok';
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  hi: 'Hindi',
+  bn: 'Bengali',
+  ta: 'Tamil',
+  te: 'Telugu',
+  kn: 'Kannada',
+  ml: 'Malayalam',
+  mr: 'Marathi',
+  gu: 'Gujarati',
+  pa: 'Punjabi',
+  or: 'Odia',
+  as: 'Assamese',
+  ur: 'Urdu',
+  kok: 'Konkani',
+};
+
+export interface IndianState {
+  name: string;
+  // Other spellings and big cities that identify the state inside an address.
+  aliases: string[];
+  region: Region;
+  // Languages branch staff are most likely to speak, most common first.
+  languages: LanguageCode[];
+}
+
+export const INDIAN_STATES: IndianState[] = [
+  { name: 'Andhra Pradesh', aliases: ['Visakhapatnam', 'Vijayawada', 'Guntur', 'Tirupati'], region: 'south', languages: ['te'] },
+  { name: 'Arunachal Pradesh', aliases: ['Itanagar'], region: 'north_east', languages: ['en', 'hi'] },
+  { name: 'Assam', aliases: ['Guwahati', 'Dibrugarh'], region: 'north_east', languages: ['as', 'bn'] },
+  { name: 'Bihar', aliases: ['Patna', 'Gaya', 'Muzaffarpur'], region: 'east', languages: ['hi'] },
+  { name: 'Chhattisgarh', aliases: ['Chattisgarh', 'Raipur', 'Bilaspur'], region: 'central', languages: ['hi'] },
+  { name: 'Goa', aliases: ['Panaji', 'Margao'], region: 'west', languages: ['kok', 'mr'] },
+  { name: 'Gujarat', aliases: ['Ahmedabad', 'Surat', 'Vadodara', 'Rajkot'], region: 'west', languages: ['gu'] },
+  { name: 'Haryana', aliases: ['Gurgaon', 'Gurugram', 'Faridabad', 'Panipat', 'Rohtak'], region: 'north', languages: ['hi'] },
+  { name: 'Himachal Pradesh', aliases: ['Shimla', 'Dharamshala'], region: 'north', languages: ['hi'] },
+  { name: 'Jharkhand', aliases: ['Ranchi', 'Jamshedpur', 'Dhanbad'], region: 'east', languages: ['hi'] },
+  { name: 'Karnataka', aliases: ['Bengaluru', 'Bangalore', 'Mysuru', 'Mysore', 'Mangaluru', 'Hubli'], region: 'south', languages: ['kn'] },
+  { name: 'Kerala', aliases: ['Thiruvananthapuram', 'Trivandrum', 'Kochi', 'Cochin', 'Kozhikode'], region: 'south', languages: ['ml'] },
+  { name: 'Madhya Pradesh', aliases: ['Bhopal', 'Indore', 'Gwalior', 'Jabalpur'], region: 'central', languages: ['hi'] },
+  { name: 'Maharashtra', aliases: ['Mumbai', 'Bombay', 'Pune', 'Nagpur', 'Nashik', 'Thane'], region: 'west', languages: ['mr', 'hi'] },
+  { name: 'Manipur', aliases: ['Imphal'], region: 'north_east', languages: ['en'] },
+  { name: 'Meghalaya', aliases: ['Shillong'], region: 'north_east', languages: ['en'] },
+  { name: 'Mizoram', aliases: ['Aizawl'], region: 'north_east', languages: ['en'] },
+  { name: 'Nagaland', aliases: ['Kohima', 'Dimapur'], region: 'north_east', languages: ['en'] },
+  { name: 'Odisha', aliases: ['Orissa', 'Bhubaneswar', 'Cuttack'], region: 'east', languages: ['or'] },
+  { name: 'Punjab', aliases: ['Ludhiana', 'Amritsar', 'Jalandhar'], region: 'north', languages: ['pa', 'hi'] },
+  { name: 'Rajasthan', aliases: ['Jaipur', 'Jodhpur', 'Udaipur', 'Kota'], region: 'north', languages: ['hi'] },
+  { name: 'Sikkim', aliases: ['Gangtok'], region: 'north_east', languages: ['en'] },
+  { name: 'Tamil Nadu', aliases: ['Chennai', 'Madras', 'Coimbatore', 'Madurai'], region: 'south', languages: ['ta'] },
+  { name: 'Telangana', aliases: ['Hyderabad', 'Secunderabad', 'Warangal'], region: 'south', languages: ['te', 'ur'] },
+  { name: 'Tripura', aliases: ['Agartala'], region: 'north_east', languages: ['bn'] },
+  { name: 'Uttar Pradesh', aliases: ['Lucknow', 'Kanpur', 'Noida', 'Ghaziabad', 'Varanasi', 'Agra', 'Prayagraj'], region: 'north', languages: ['hi', 'ur'] },
+  { name: 'Uttarakhand', aliases: ['Uttaranchal', 'Dehradun', 'Haridwar'], region: 'north', languages: ['hi'] },
+  { name: 'West Bengal', aliases: ['Kolkata', 'Calcutta', 'Howrah', 'Siliguri'], region: 'east', languages: ['bn'] },
+  { name: 'Andaman and Nicobar Islands', aliases: ['Port Blair'], region: 'east', languages: ['hi', 'en'] },
+  { name: 'Chandigarh', aliases: [], region: 'north', languages: ['hi', 'pa'] },
+  { name: 'Dadra and Nagar Haveli and Daman and Diu', aliases: ['Silvassa', 'Daman'], region: 'west', languages: ['gu'] },
+  { name: 'Delhi', aliases: ['New Delhi'], region: 'north', languages: ['hi'] },
+  { name: 'Jammu and Kashmir', aliases: ['Srinagar', 'Jammu'], region: 'north', languages: ['ur', 'hi'] },
+  { name: 'Ladakh', aliases: ['Leh', 'Kargil'], region: 'north', languages: ['hi'] },
+  { name: 'Lakshadweep', aliases: ['Kavaratti'], region: 'south', languages: ['ml'] },
+  { name: 'Puducherry', aliases: ['Pondicherry'], region: 'south', languages: ['ta'] },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const matchers = INDIAN_STATES.map(state => ({
+  state,
+  pattern: new RegExp(`\\b(${[state.name, ...state.aliases].map(escapeRegExp).join('|')})\\b`, 'gi'),
+}));
+
+export const findState = (name: string) =>
+  INDIAN_STATES.find(state => state.name.toLowerCase() === name.trim().toLowerCase());
+
+// Best-effort state lookup from a free-text address. The state name usually comes
+// last, so the match closest to the end of the address wins.
+export const detectState = (address: string): IndianState | undefined => {
+  let best: { state: IndianState; index: number } | undefined;
+  for (const { state, pattern } of matchers) {
+    for (const match of address.matchAll(pattern)) {
+      if (!best || match.index > best.index) {
+        best = { state, index: match.index };
+      }
+    }
+  }
+  return best?.state;
+};
@@ -0,0 +1,70 @@
+import type { Bank } from '../types/bank';
+import { isDuplicate } from './duplicates';
+import { OUTCOMES, outcomeOf, type Outcome } from './outcomes';
+import { detectState } from './regions';
+
+export interface ReportFilter {
+  caller?: string;
+  outcome?: Outcome;
+  // Inclusive `YYYY-MM-DD` bounds on `verifiedAt`.
+  from?: string;
+  to?: string;
+  bankName?: string;
+  state?: string;
+}
+
+export type ReportOrder = 'sheet' | 'addressSimilarity';
+
+export const REPORT_ORDER_LABELS: Record<ReportOrder, string> = {
+  sheet: 'Sheet order',
+  addressSimilarity: 'Address similarity (least similar first)',
+};
+
+export interface OutcomeGroup {
+  outcome: Outcome;
+  banks: Bank[];
+}
+
+const dayOf = (timestamp: string) => timestamp.slice(0, 10);
+
+// Duplicate listings are never reported; their branch appears under the bank that was kept.
+export const filterBanks = (banks: Bank[], filter: ReportFilter) =>
+  banks.filter(bank => {
+    if (isDuplicate(bank)) return false;
+    if (filter.caller && bank.userName !== filter.caller) return false;
+    if (filter.outcome && outcomeOf(bank) !== filter.outcome) return false;
+    if (filter.from && (!bank.verifiedAt || dayOf(bank.verifiedAt) < filter.from)) return false;
+    if (filter.to && (!bank.verifiedAt || dayOf(bank.verifiedAt) > filter.to)) return false;
+    if (filter.bankName && !bank.bankName.toLowerCase().includes(filter.bankName.toLowerCase())) return false;
+    if (filter.state && detectState(bank.address)?.name !== filter.state) return false;
+    return true;
+  });
+
+// Banks without a similarity score (no address was recorded) go last.
+export const sortForReport = (banks: Bank[], order: ReportOrder) =>
+  order === 'addressSimilarity'
+    ? [...banks].sort((a, b) => (a.addressSimilarity ?? Infinity) - (b.addressSimilarity ?? Infinity))
+    : banks;
+
+export const countByOutcome = (banks: Bank[]) => {
+  const counts = Object.fromEntries(OUTCOMES.map(outcome => [outcome, 0])) as Record<Outcome, number>;
+  banks.forEach(bank => counts[outcomeOf(bank)]++);
+  return counts;
+};
+
+// Groups in report order, skipping outcomes with no banks.
+export const groupByOutcome = (banks: Bank[]): OutcomeGroup[] =>
+  OUTCOMES
+    .map(outcome => ({ outcome, banks: banks.filter(bank => outcomeOf(bank) === outcome) }))
+    .filter(group => group.banks.length > 0);
+
+export const describeFilter = (filter: ReportFilter) => {
+  const parts = [
+    filter.caller && `caller ${filter.caller}`,
+    filter.outcome && `outcome ${filter.outcome.replace(/_/g, ' ')}`,
+    (filter.from || filter.to) && `dates ${filter.from ?? '…'} to ${filter.to ?? '…'}`,
+    filter.bankName && `bank name contains "${filter.bankName}"`,
+    filter.state && `state ${filter.state}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'all banks';
+};
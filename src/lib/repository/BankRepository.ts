@@ -0,0 +1,76 @@
+import type { Bank, BankChanges, NewBank } from '../../types/bank';
+import { DEFAULT_LEASE_SECONDS, isAssigned } from '../lease';
+
+export interface ClaimRequest {
+  userName: string;
+  // Random per attempt; whoever's token is on the row after the write owns the bank.
+  claimToken: string;
+  // `claimVersion` the caller saw when choosing the bank.
+  expectedVersion: number;
+  leaseSeconds?: number;
+}
+
+export interface BankRepository {
+  list(): Promise<Bank[]>;
+  get(id: number): Promise<Bank>;
+  // Rejects with ClaimConflictError when the row moved past `expectedVersion`.
+  claim(id: number, request: ClaimRequest): Promise<Bank>;
+  // With `expectedToken`, rejects with ClaimConflictError unless the row still carries that
+  // claim, so a bank someone has claimed since is never released from under them.
+  release(id: number, expectedToken?: string): Promise<Bank>;
+  update(id: number, changes: BankChanges): Promise<Bank>;
+  create(bank: NewBank): Promise<Bank>;
+}
+
+export class ClaimConflictError extends Error {
+  readonly bankId: number;
+
+  constructor(bankId: number) {
+    super(`Bank ${bankId} was claimed by someone else`);
+    this.name = 'ClaimConflictError';
+    this.bankId = bankId;
+  }
+}
+
+// Fields cleared when a caller gives a bank back without submitting it.
+export const RELEASED_FIELDS = {
+  userName: '',
+  claimToken: '',
+  claimedAt: '',
+  phoneNumber: '',
+  updateAddress: '',
+  updateAddressParts: '',
+  addressSimilarity: '',
+  latitude: '',
+  longitude: '',
+  updatedBranchName: '',
+  correctedIfsc: '',
+  response: '',
+  remarks: '',
+} satisfies BankChanges;
+
+export const claimedFields = ({ userName, claimToken, expectedVersion, leaseSeconds }: ClaimRequest) => ({
+  userName,
+  claimToken,
+  claimVersion: expectedVersion + 1,
+  claimedAt: new Date().toISOString(),
+  leaseSeconds: leaseSeconds ?? DEFAULT_LEASE_SECONDS,
+}) satisfies BankChanges;
+
+// Applies a write to a row held in memory, turning cleared ('') columns into undefined.
+export const applyChanges = (bank: Bank, changes: BankChanges): Bank => {
+  const updated: Record<string, unknown> = { ...bank };
+  Object.entries(changes).forEach(([key, value]) => {
+    updated[key] = value === '' ? undefined : value;
+  });
+  return updated as Bank;
+};
+
+// Whether a release that expects `expectedToken` may go ahead; '' expects no claim token.
+export const isTokenCurrent = (bank: Bank, expectedToken: string | undefined) =>
+  expectedToken === undefined || (bank.claimToken ?? '') === expectedToken;
+
+// Whether a bank can still be claimed by someone who saw it at `expectedVersion`.
+// A bank whose lease has expired counts as unassigned.
+export const isVersionCurrent = (bank: Bank, expectedVersion: number) =>
+  (bank.claimVersion ?? 0) === expectedVersion && !isAssigned(bank);
@@ -0,0 +1,41 @@
+import { sampleBanks } from '../../data/sampleBanks';
+import type { BankRepository } from './BankRepository';
+import { createMemoryBankRepository } from './memoryRepository';
+import { createRestBankRepository } from './restRepository';
+import { createSheetyBankRepository } from './sheetyRepository';
+import { withValidation } from './validatingRepository';
+
+export { ClaimConflictError } from './BankRepository';
+export { BankValidationError } from './validatingRepository';
+export type { BankRepository, ClaimRequest } from './BankRepository';
+export { createMemoryBankRepository, createRestBankRepository, createSheetyBankRepository, withValidation };
+
+const DEFAULT_SHEETY_API = 'https://api.sheety.co/632604ca09353483222880568eb0ebe2/bankAddressForCalling/banks';
+
+export type BankRepositoryKind = 'sheety' | 'rest' | 'memory' | 'indexeddb';
+
+const createBackend = (kind: BankRepositoryKind): BankRepository => {
+  switch (kind) {
+    case 'rest':
+      if (!import.meta.env.VITE_REST_API) {
+        throw new Error('VITE_REST_API must be set to use the REST bank repository');
+      }
+      return createRestBankRepository(import.meta.env.VITE_REST_API);
+    case 'memory':
+      return createMemoryBankRepository({ seed: sampleBanks });
+    case 'indexeddb':
+      return createMemoryBankRepository({ seed: sampleBanks, persist: true });
+    case 'sheety':
+    default:
+      return createSheetyBankRepository(import.meta.env.VITE_SHEETY_API || DEFAULT_SHEETY_API);
+  }
+};
+
+// Every backend is wrapped so malformed rows never reach the UI or the PDFs.
+export const createBankRepository = (kind: BankRepositoryKind): BankRepository =>
+  withValidation(createBackend(kind));
+
+// The repository the app talks to, chosen with VITE_BANK_REPOSITORY (defaults to Sheety).
+export const bankRepository = createBankRepository(
+  (import.meta.env.VITE_BANK_REPOSITORY as BankRepositoryKind | undefined) ?? 'sheety'
+);
@@ -0,0 +1,88 @@
+import type { Bank, BankChanges } from '../../types/bank';
+import { getAll, openDatabase, put, putAll } from '../idb';
+import {
+  ClaimConflictError,
+  RELEASED_FIELDS,
+  applyChanges,
+  claimedFields,
+  isTokenCurrent,
+  isVersionCurrent,
+  type BankRepository,
+} from './BankRepository';
+
+const DB_NAME = 'gis-bank-verification';
+const STORE = 'banks';
+
+interface MemoryRepositoryOptions {
+  seed?: Bank[];
+  // Keep rows in IndexedDB so a demo survives page reloads.
+  persist?: boolean;
+}
+
+// Local stand-in for the sheet, used for testing and demos.
+export const createMemoryBankRepository = ({ seed = [], persist = false }: MemoryRepositoryOptions = {}): BankRepository => {
+  let rows: Map<number, Bank> | null = null;
+  let db: IDBDatabase | null = null;
+
+  const load = async () => {
+    if (rows) return rows;
+    let initial = seed;
+    if (persist) {
+      db = await openDatabase(DB_NAME, [{ name: STORE, keyPath: 'id' }]);
+      const stored = await getAll<Bank>(db, STORE);
+      if (stored.length > 0) {
+        initial = stored;
+      } else {
+        await putAll(db, STORE, seed);
+      }
+    }
+    rows = new Map(initial.map(bank => [bank.id, { ...bank }]));
+    return rows;
+  };
+
+  const get = async (id: number) => {
+    const bank = (await load()).get(id);
+    if (!bank) throw new Error(`Bank ${id} not found`);
+    return { ...bank };
+  };
+
+  const update = async (id: number, changes: BankChanges) => {
+    const updated = { ...applyChanges(await get(id), changes), id };
+    (await load()).set(id, updated);
+    if (db) await put(db, STORE, updated);
+    return { ...updated };
+  };
+
+  return {
+    async list() {
+      return Array.from((await load()).values(), bank => ({ ...bank }));
+    },
+    get,
+    // Check and write happen without an await in between, so this is atomic.
+    async claim(id, request) {
+      const rows = await load();
+      const current = rows.get(id);
+      if (!current) throw new Error(`Bank ${id} not found`);
+      if (!isVersionCurrent(current, request.expectedVersion)) {
+        throw new ClaimConflictError(id);
+      }
+      const claimed = { ...current, ...claimedFields(request) };
+      rows.set(id, claimed);
+      if (db) await put(db, STORE, claimed);
+      return { ...claimed };
+    },
+    // Like `claim`, the check and the write are atomic.
+    async release(id, expectedToken) {
+      if (!isTokenCurrent(await get(id), expectedToken)) throw new ClaimConflictError(id);
+      return update(id, RELEASED_FIELDS);
+    },
+    update,
+    async create(bank) {
+      const rows = await load();
+      const created = { ...bank, id: Math.max(0, ...rows.keys()) + 1 };
+      rows.set(created.id, created);
+      if (db) await put(db, STORE, created);
+      return { ...created };
+    },
+  };
+};
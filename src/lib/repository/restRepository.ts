@@ -0,0 +1,51 @@
+import axios from 'axios';
+import type { Bank } from '../../types/bank';
+import { ClaimConflictError, type BankRepository } from './BankRepository';
+
+// Plain JSON REST backend:
+//   GET   /banks               -> Bank[]
+//   GET   /banks/:id           -> Bank
+//   PATCH /banks/:id           -> Bank
+//   POST  /banks/:id/claim     -> Bank   body: ClaimRequest, 409 if the version moved on
+//   POST  /banks/:id/release   -> Bank   body: { expectedToken? }, 409 if the row holds another claim
+//   POST  /banks               -> Bank   body: Bank without an id
+export const createRestBankRepository = (baseUrl: string): BankRepository => {
+  const rowUrl = (id: number) => `${baseUrl}/banks/${id}`;
+
+  const postClaimAction = async (id: number, action: 'claim' | 'release', body: unknown) => {
+    try {
+      const response = await axios.post<Bank>(`${rowUrl(id)}/${action}`, body);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        throw new ClaimConflictError(id);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    async list() {
+      const response = await axios.get<Bank[]>(`${baseUrl}/banks`);
+      return response.data;
+    },
+    async get(id) {
+      const response = await axios.get<Bank>(rowUrl(id));
+      return response.data;
+    },
+    async claim(id, request) {
+      return postClaimAction(id, 'claim', request);
+    },
+    async release(id, expectedToken) {
+      return postClaimAction(id, 'release', { expectedToken });
+    },
+    async update(id, changes) {
+      const response = await axios.patch<Bank>(rowUrl(id), changes);
+      return response.data;
+    },
+    async create(bank) {
+      const response = await axios.post<Bank>(`${baseUrl}/banks`, bank);
+      return response.data;
+    },
+  };
+};
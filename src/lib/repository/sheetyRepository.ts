@@ -0,0 +1,59 @@
+import axios from 'axios';
+import type { Bank } from '../../types/bank';
+import {
+  ClaimConflictError,
+  RELEASED_FIELDS,
+  claimedFields,
+  isTokenCurrent,
+  isVersionCurrent,
+  type BankRepository,
+} from './BankRepository';
+
+// Sheety exposes one sheet as `{ banks: [...] }` and single rows as `{ bank: {...} }`.
+// A PUT only touches the fields it is given, so partial updates are safe.
+export const createSheetyBankRepository = (endpoint: string): BankRepository => {
+  const rowUrl = (id: number) => `${endpoint}/${id}`;
+
+  // Structured values (the call history) are stored as JSON text in their cell.
+  const toCells = (fields: Record<string, unknown>) =>
+    Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [key, typeof value === 'object' && value !== null ? JSON.stringify(value) : value])
+    );
+
+  const put = async (id: number, fields: Record<string, unknown>) => {
+    const response = await axios.put(rowUrl(id), { bank: toCells(fields) });
+    return response.data.bank as Bank;
+  };
+
+  const get = async (id: number) => {
+    const response = await axios.get(rowUrl(id));
+    return response.data.bank as Bank;
+  };
+
+  return {
+    async list() {
+      const response = await axios.get(endpoint);
+      return response.data.banks as Bank[];
+    },
+    get,
+    // Sheety has no conditional writes, so this is check-then-write. The claiming
+    // logic re-reads the row afterwards to catch writers that slipped in between.
+    async claim(id, request) {
+      if (!isVersionCurrent(await get(id), request.expectedVersion)) {
+        throw new ClaimConflictError(id);
+      }
+      return put(id, claimedFields(request));
+    },
+    // Check-then-write like `claim`: it narrows the window in which a fresh claim could be wiped.
+    async release(id, expectedToken) {
+      if (!isTokenCurrent(await get(id), expectedToken)) throw new ClaimConflictError(id);
+      return put(id, RELEASED_FIELDS);
+    },
+    update: put,
+    // Sheety appends the row and assigns its id.
+    async create(bank) {
+      const response = await axios.post(endpoint, { bank: toCells(bank) });
+      return response.data.bank as Bank;
+    },
+  };
+};
@@ -0,0 +1,73 @@
+import { bankChangesSchema, bankSchema, formatIssues, newBankSchema } from '../../types/bank';
+import { clearQuarantinedRow, quarantineRow } from '../quarantine';
+import type { BankRepository } from './BankRepository';
+
+export class BankValidationError extends Error {
+  readonly bankId?: number;
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[], bankId?: number) {
+    super(`${message}: ${issues.join('; ')}`);
+    this.name = 'BankValidationError';
+    this.bankId = bankId;
+    this.issues = issues;
+  }
+}
+
+const rowId = (raw: unknown) => {
+  const id = Number((raw as { id?: unknown } | null)?.id);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+};
+
+// Parses a row from the backend, quarantining it when it does not match the schema.
+const parseRow = (raw: unknown) => {
+  const result = bankSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = formatIssues(result.error);
+    quarantineRow({ id: rowId(raw), raw, issues });
+    return { issues };
+  }
+  clearQuarantinedRow(result.data.id);
+  return { bank: result.data };
+};
+
+const parseRowOrThrow = (raw: unknown, id: number) => {
+  const { bank, issues } = parseRow(raw);
+  if (!bank) {
+    throw new BankValidationError(`Bank ${id} is malformed and has been quarantined`, issues ?? [], id);
+  }
+  return bank;
+};
+
+// Checks every row read from, and every change written to, the wrapped backend against the bank schema.
+export const withValidation = (repository: BankRepository): BankRepository => ({
+  async list() {
+    const rows: unknown[] = await repository.list();
+    return rows.flatMap(raw => parseRow(raw).bank ?? []);
+  },
+  async get(id) {
+    return parseRowOrThrow(await repository.get(id), id);
+  },
+  async claim(id, request) {
+    return parseRowOrThrow(await repository.claim(id, request), id);
+  },
+  async release(id, expectedToken) {
+    return parseRowOrThrow(await repository.release(id, expectedToken), id);
+  },
+  async update(id, changes) {
+    const result = bankChangesSchema.safeParse(changes);
+    if (!result.success) {
+      throw new BankValidationError(`Refusing to write invalid changes to bank ${id}`, formatIssues(result.error), id);
+    }
+    // The original changes are sent so that '' still clears a column.
+    return parseRowOrThrow(await repository.update(id, changes), id);
+  },
+  async create(bank) {
+    const result = newBankSchema.safeParse(bank);
+    if (!result.success) {
+      throw new BankValidationError(`Refusing to add invalid bank UFI ${bank.ufi}`, formatIssues(result.error));
+    }
+    const created = await repository.create(result.data);
+    return parseRowOrThrow(created, created.id);
+  },
+});
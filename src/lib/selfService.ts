@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import type { Bank, BranchResponse } from '../types/bank';
+import { EMPTY_ADDRESS, addressPartsFormSchema, formatAddress, missingAddressPart, toAddressParts, type AddressFormValues } from './address';
+import { normalizeIfsc, validateIfsc } from './ifsc';
+import { canonicalPhone, isParsedPhone, parsePhoneNumber } from './phone';
+import { extractPinCode } from './pinCode';
+import type { BankRepository } from './repository';
+import { verifyBankReference } from './signedReference';
+
+export const selfServiceFormSchema = z.object({
+  respondentName: z.string().trim().min(2, "Please enter your name"),
+  contactNumber: z.string()
+    .superRefine((val, ctx) => {
+      const result = parsePhoneNumber(val);
+      if (!isParsedPhone(result)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+    })
+    .transform(val => canonicalPhone(val) ?? val),
+  addressConfirmed: z.enum(['yes', 'no'], { required_error: "Please tell us whether the address is correct" }),
+  addressParts: addressPartsFormSchema,
+  branchName: z.string().trim().min(3, "Branch name must be at least 3 characters").max(100, "Branch name must not exceed 100 characters"),
+  ifscCode: z.string()
+    .transform(normalizeIfsc)
+    .superRefine((val, ctx) => {
+      const problem = validateIfsc(val);
+      if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }),
+}).superRefine((values, ctx) => {
+  const missing = values.addressConfirmed === 'no' ? missingAddressPart(values.addressParts) : null;
+  if (missing) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['addressParts', 'line'], message: missing });
+});
+
+export type SelfServiceFormValues = z.infer<typeof selfServiceFormSchema>;
+
+// A starting point for a corrected address: the PIN can usually be read off the one-line
+// RBI address (the address editor fills in the state from it), the rest is for the branch.
+const correctionStartingPoint = (bank: Bank): AddressFormValues =>
+  bank.branchResponse?.addressParts
+    ? { ...EMPTY_ADDRESS, ...bank.branchResponse.addressParts }
+    : { ...EMPTY_ADDRESS, pinCode: extractPinCode(bank.address) ?? '' };
+
+// Prefills the form from the RBI record, or from the branch's last response if it sent one.
+export const selfServiceDefaults = (bank: Bank): Partial<SelfServiceFormValues> => {
+  const previous = bank.branchResponse;
+  return {
+    respondentName: previous?.respondentName ?? '',
+    contactNumber: previous?.contactNumber ?? '',
+    ...(previous && { addressConfirmed: previous.addressConfirmed ? 'yes' : 'no' }),
+    addressParts: correctionStartingPoint(bank),
+    branchName: previous?.branchName ?? bank.branchName,
+    ifscCode: previous?.ifscCode ?? bank.ifscCode,
+  };
+};
+
+export const toBranchResponse = (values: SelfServiceFormValues, now = new Date()): BranchResponse => {
+  const corrected = values.addressConfirmed === 'no' ? toAddressParts(values.addressParts) : undefined;
+  return {
+    source: 'branch_self_service',
+    submittedAt: now.toISOString(),
+    respondentName: values.respondentName,
+    contactNumber: values.contactNumber,
+    addressConfirmed: values.addressConfirmed === 'yes',
+    address: corrected && formatAddress(corrected),
+    addressParts: corrected,
+    branchName: values.branchName,
+    ifscCode: values.ifscCode,
+  };
+};
+
+// Resolves a scanned reference to its bank. A branch later marked as a duplicate
+// listing answers for the bank that was kept. Throws InvalidReferenceError for bad links.
+export const loadBankForReference = async (repository: BankRepository, reference: string) => {
+  const { bankId } = await verifyBankReference(reference);
+  const bank = await repository.get(bankId);
+  return bank.duplicateOf ? repository.get(bank.duplicateOf) : bank;
+};
+
+export const saveBranchResponse = (repository: BankRepository, bank: Bank, values: SelfServiceFormValues) =>
+  repository.update(bank.id, { branchResponse: toBranchResponse(values) });
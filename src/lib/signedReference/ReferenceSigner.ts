@@ -0,0 +1,34 @@
+// Short signed references for the letter QR codes. A reference packs the bank id and
+// an expiry with a MAC over both, so a link can't be pointed at another bank or kept
+// alive past its expiry. The key stays on the backend: the browser only asks for
+// references and asks whether one is valid.
+
+export const DEFAULT_REFERENCE_TTL_DAYS = 90;
+
+export type ReferenceProblem = 'malformed' | 'forged' | 'expired';
+
+export class InvalidReferenceError extends Error {
+  readonly problem: ReferenceProblem;
+
+  constructor(problem: ReferenceProblem) {
+    super(
+      problem === 'expired'
+        ? 'This link has expired. Please ask for a new letter.'
+        : 'This link is not valid. Please scan the QR code on your letter again.'
+    );
+    this.name = 'InvalidReferenceError';
+    this.problem = problem;
+  }
+}
+
+export interface BankReference {
+  bankId: number;
+  expiresAt: Date;
+}
+
+export interface ReferenceSigner {
+  sign(bankId: number, ttlDays: number): Promise<string>;
+  // Rejects with InvalidReferenceError when the reference is garbled, was altered or
+  // signed with another key, or has expired.
+  verify(reference: string): Promise<BankReference>;
+}
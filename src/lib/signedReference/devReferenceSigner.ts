@@ -0,0 +1,82 @@
+import { InvalidReferenceError, type ReferenceSigner } from './ReferenceSigner';
+
+// In-browser stand-in for the reference backend, used only by `npm run dev`. Production
+// builds never call it, so the key below is dropped from the bundle.
+//
+// Layout (25 bytes, 34 characters of base64url), the same as the backend's:
+//   version (1) | bank id, uint32 (4) | expiry in unix seconds, uint32 (4) | MAC (16)
+
+const VERSION = 1;
+const PAYLOAD_BYTES = 9;
+const MAC_BYTES = 16;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const DEV_SIGNING_KEY = 'development-only-qr-signing-key';
+
+let keyPromise: Promise<CryptoKey> | undefined;
+
+const signingKey = () =>
+  (keyPromise ??= crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(DEV_SIGNING_KEY),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  ));
+
+const macOf = async (payload: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.sign('HMAC', await signingKey(), payload)).subarray(0, MAC_BYTES);
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) return null;
+  try {
+    return Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+// Compares every byte so the time taken doesn't reveal how much of a forged MAC was right.
+const equalBytes = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  a.forEach((byte, index) => {
+    difference |= byte ^ b[index];
+  });
+  return difference === 0;
+};
+
+export const createDevReferenceSigner = (): ReferenceSigner => ({
+  async sign(bankId, ttlDays) {
+    const payload = new Uint8Array(PAYLOAD_BYTES);
+    const view = new DataView(payload.buffer);
+    view.setUint8(0, VERSION);
+    view.setUint32(1, bankId);
+    view.setUint32(5, Math.floor(Date.now() / 1000) + Math.round(ttlDays * DAY_SECONDS));
+
+    const reference = new Uint8Array(PAYLOAD_BYTES + MAC_BYTES);
+    reference.set(payload);
+    reference.set(await macOf(payload), PAYLOAD_BYTES);
+    return toBase64Url(reference);
+  },
+  async verify(reference) {
+    const bytes = fromBase64Url(reference.trim());
+    if (!bytes || bytes.length !== PAYLOAD_BYTES + MAC_BYTES || bytes[0] !== VERSION) {
+      throw new InvalidReferenceError('malformed');
+    }
+
+    const payload = bytes.subarray(0, PAYLOAD_BYTES);
+    if (!equalBytes(bytes.subarray(PAYLOAD_BYTES), await macOf(payload))) {
+      throw new InvalidReferenceError('forged');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, PAYLOAD_BYTES);
+    const expiresAt = new Date(view.getUint32(5) * 1000);
+    if (expiresAt.getTime() <= Date.now()) throw new InvalidReferenceError('expired');
+    return { bankId: view.getUint32(1), expiresAt };
+  },
+});
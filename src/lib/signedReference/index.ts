@@ -0,0 +1,26 @@
+import { createDevReferenceSigner } from './devReferenceSigner';
+import { DEFAULT_REFERENCE_TTL_DAYS, type BankReference, type ReferenceSigner } from './ReferenceSigner';
+import { createRestReferenceSigner } from './restReferenceSigner';
+
+export { DEFAULT_REFERENCE_TTL_DAYS, InvalidReferenceError } from './ReferenceSigner';
+export type { BankReference, ReferenceProblem, ReferenceSigner } from './ReferenceSigner';
+export { createRestReferenceSigner };
+
+// References are signed and checked by the backend at VITE_QR_REFERENCE_API. Only
+// `npm run dev` falls back to an in-browser signer; a build without the API refuses.
+const createReferenceSigner = (): ReferenceSigner => {
+  if (import.meta.env.VITE_QR_REFERENCE_API) return createRestReferenceSigner(import.meta.env.VITE_QR_REFERENCE_API);
+  if (import.meta.env.DEV) return createDevReferenceSigner();
+  throw new Error('VITE_QR_REFERENCE_API is not set, so QR links cannot be signed or checked');
+};
+
+let signer: ReferenceSigner | undefined;
+
+const referenceSigner = () => (signer ??= createReferenceSigner());
+
+export const signBankReference = (bankId: number, { ttlDays = DEFAULT_REFERENCE_TTL_DAYS } = {}) =>
+  referenceSigner().sign(bankId, ttlDays);
+
+// Returns the bank a reference points at. Throws InvalidReferenceError when the reference is
+// garbled, was altered or signed with another key, or has expired.
+export const verifyBankReference = (reference: string): Promise<BankReference> => referenceSigner().verify(reference);
@@ -0,0 +1,32 @@
+import axios from 'axios';
+import { InvalidReferenceError, type ReferenceProblem, type ReferenceSigner } from './ReferenceSigner';
+
+// Statuses that mean the reference itself was turned down, rather than the request failing.
+const REJECTED = [400, 403, 404, 410];
+
+// Signing backend, which holds the key:
+//   POST /qr-references              -> { reference }          body: { bankId, ttlDays }, needs a staff session
+//   GET  /qr-references/:reference   -> { bankId, expiresAt }  4xx with { problem } when the reference is not valid
+export const createRestReferenceSigner = (baseUrl: string): ReferenceSigner => {
+  const referencesUrl = `${baseUrl}/qr-references`;
+
+  return {
+    async sign(bankId, ttlDays) {
+      const response = await axios.post<{ reference: string }>(referencesUrl, { bankId, ttlDays }, { withCredentials: true });
+      return response.data.reference;
+    },
+    async verify(reference) {
+      try {
+        const response = await axios.get<{ bankId: number; expiresAt: string }>(
+          `${referencesUrl}/${encodeURIComponent(reference.trim())}`
+        );
+        return { bankId: response.data.bankId, expiresAt: new Date(response.data.expiresAt) };
+      } catch (error) {
+        if (axios.isAxiosError<{ problem?: ReferenceProblem }>(error) && error.response && REJECTED.includes(error.response.status)) {
+          throw new InvalidReferenceError(error.response.data?.problem ?? (error.response.status === 410 ? 'expired' : 'forged'));
+        }
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import { AxiosError } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Bank } from '../types/bank';
+import { createMemoryBankRepository, type BankRepository } from './repository';
+
+// The outbox keeps its queue in module state, so every test loads a fresh copy.
+const loadOutbox = () => import('./submissionOutbox');
+
+const claimed: Bank = {
+  id: 2,
+  ufi: 100001,
+  bankName: 'State Bank of India',
+  branchName: 'Hazratganj',
+  ifscCode: 'SBIN0000001',
+  address: 'Hazratganj, Lucknow 226001',
+  userName: 'caller',
+  claimToken: 'token',
+  claimVersion: 1,
+};
+
+const CHANGES = { response: 'no_change_in_address' as const, userName: '' as const };
+
+// Lets the row be changed behind the caller's back and writes fail while `offline` is set.
+const flakyRepository = () => {
+  const repository = createMemoryBankRepository({ seed: [claimed] });
+  const state = { offline: false };
+  const flaky: BankRepository = {
+    ...repository,
+    async update(id, changes) {
+      if (state.offline) throw new AxiosError('Network Error');
+      return repository.update(id, changes);
+    },
+  };
+  return { repository: flaky, state, reclaim: () => repository.update(claimed.id, { claimToken: 'other', claimVersion: 2 }) };
+};
+
+describe('submitThroughOutbox', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubGlobal('navigator', { onLine: true });
+    // No IndexedDB under Node; the outbox says so and keeps the queue in memory.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends straight away while the claim is unchanged', async () => {
+    const { submitThroughOutbox, getPendingSubmissions } = await loadOutbox();
+    const { repository } = flakyRepository();
+
+    expect(await submitThroughOutbox(repository, claimed, CHANGES)).toBe('sent');
+    expect((await repository.get(claimed.id)).response).toBe('no_change_in_address');
+    expect(getPendingSubmissions()).toEqual([]);
+  });
+
+  it('refuses to write over a bank that was claimed again', async () => {
+    const { submitThroughOutbox, getPendingSubmissions, SubmissionConflictError } = await loadOutbox();
+    const { repository, reclaim } = flakyRepository();
+    await reclaim();
+
+    await expect(submitThroughOutbox(repository, claimed, CHANGES)).rejects.toBeInstanceOf(SubmissionConflictError);
+    expect((await repository.get(claimed.id)).response).toBeUndefined();
+    expect(getPendingSubmissions()).toEqual([]);
+  });
+
+  it('treats a changed claimVersion under the same token as a conflict', async () => {
+    const { submitThroughOutbox, flushOutbox, getPendingSubmissions } = await loadOutbox();
+    const { repository, state } = flakyRepository();
+    state.offline = true;
+    expect(await submitThroughOutbox(repository, claimed, CHANGES)).toBe('queued');
+
+    state.offline = false;
+    await repository.update(claimed.id, { claimVersion: 2 });
+    await flushOutbox(repository, { force: true });
+
+    expect(getPendingSubmissions()).toMatchObject([{ status: 'conflict', attempts: 2 }]);
+    expect((await repository.get(claimed.id)).response).toBeUndefined();
+  });
+
+  it('writes a held conflict when the caller chooses to overwrite', async () => {
+    const { submitThroughOutbox, flushOutbox, getPendingSubmissions, overwriteWithSubmission } = await loadOutbox();
+    const { repository, state, reclaim } = flakyRepository();
+    state.offline = true;
+    await submitThroughOutbox(repository, claimed, CHANGES);
+    state.offline = false;
+    await reclaim();
+    await flushOutbox(repository, { force: true });
+
+    await overwriteWithSubmission(repository, getPendingSubmissions()[0].id);
+    expect((await repository.get(claimed.id)).response).toBe('no_change_in_address');
+    expect(getPendingSubmissions()).toEqual([]);
+  });
+
+  it('backs off exponentially up to five minutes', async () => {
+    const { submitThroughOutbox, flushOutbox, getPendingSubmissions } = await loadOutbox();
+    const { repository, state } = flakyRepository();
+    state.offline = true;
+    const waitAfter = () => Date.parse(getPendingSubmissions()[0].nextAttemptAt) - Date.now();
+
+    await submitThroughOutbox(repository, claimed, CHANGES);
+    // 5 s with up to 20% jitter either way.
+    expect(waitAfter()).toBeGreaterThan(3_900);
+    expect(waitAfter()).toBeLessThanOrEqual(6_000);
+
+    for (let attempt = 2; attempt <= 12; attempt++) await flushOutbox(repository, { force: true });
+    expect(getPendingSubmissions()[0].attempts).toBe(12);
+    expect(waitAfter()).toBeGreaterThan(3.9 * 60_000);
+    expect(waitAfter()).toBeLessThanOrEqual(6 * 60_000);
+  });
+
+  it('runs a forced flush asked for during a background one, ignoring back-off', async () => {
+    const { submitThroughOutbox, flushOutbox, getPendingSubmissions } = await loadOutbox();
+    const { repository, state } = flakyRepository();
+    state.offline = true;
+    await submitThroughOutbox(repository, claimed, CHANGES);
+    state.offline = false;
+
+    // The background flush leaves the entry to its back-off; the forced one must not.
+    await Promise.all([flushOutbox(repository), flushOutbox(repository, { force: true })]);
+    expect(getPendingSubmissions()).toEqual([]);
+    expect((await repository.get(claimed.id)).response).toBe('no_change_in_address');
+  });
+
+  it('drops a submission the backend rejects for good and throws', async () => {
+    const { submitThroughOutbox, getPendingSubmissions } = await loadOutbox();
+    const repository: BankRepository = {
+      ...createMemoryBankRepository({ seed: [claimed] }),
+      update: () => Promise.reject(new Error('phoneNumber: Invalid')),
+    };
+
+    await expect(submitThroughOutbox(repository, claimed, CHANGES)).rejects.toThrow('phoneNumber: Invalid');
+    expect(getPendingSubmissions()).toEqual([]);
+  });
+});
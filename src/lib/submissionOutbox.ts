@@ -0,0 +1,258 @@
+import axios from 'axios';
+import type { Bank, BankChanges } from '../types/bank';
+import { getAll, openDatabase, put, remove } from './idb';
+import type { BankRepository } from './repository';
+
+// Call submissions are written to IndexedDB before they are sent, so nothing typed
+// on the form is lost to a dropped connection. Failed sends are retried with
+// exponential back-off and replayed oldest first when the connection returns.
+
+const DB_NAME = 'gis-bank-verification-outbox';
+const STORE = 'submissions';
+
+const BASE_RETRY_MS = 5 * 1000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+export type SubmissionStatus = 'pending' | 'conflict' | 'rejected';
+
+export interface PendingSubmission {
+  id: string;
+  bankId: number;
+  // Shown in the sync panel, so the caller knows which bank an entry is for.
+  label: string;
+  changes: BankChanges;
+  // The claim the caller held when submitting. If the row has moved on since,
+  // someone else may have called the bank and the write is held for review.
+  claimToken?: string;
+  claimVersion: number;
+  queuedAt: string;
+  status: SubmissionStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export class SubmissionConflictError extends Error {
+  readonly bankId: number;
+
+  constructor(bankId: number) {
+    super(`Bank ${bankId} changed after this call was submitted`);
+    this.name = 'SubmissionConflictError';
+    this.bankId = bankId;
+  }
+}
+
+type Listener = (submissions: PendingSubmission[]) => void;
+
+const submissions = new Map<string, PendingSubmission>();
+const listeners = new Set<Listener>();
+// Entries `submitThroughOutbox` is still sending itself; background replays stop at them.
+const inFlight = new Set<string>();
+let storage: Promise<IDBDatabase | null> | undefined;
+
+// Without IndexedDB (e.g. some private windows) the outbox still works, for this tab only.
+const database = () =>
+  (storage ??= openDatabase(DB_NAME, [{ name: STORE, keyPath: 'id' }])
+    .then(async db => {
+      (await getAll<PendingSubmission>(db, STORE)).forEach(entry => submissions.set(entry.id, entry));
+      notify();
+      return db;
+    })
+    .catch(error => {
+      console.error('IndexedDB is unavailable; unsent submissions will not survive a reload', error);
+      return null;
+    }));
+
+const notify = () => {
+  const snapshot = getPendingSubmissions();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const save = async (entry: PendingSubmission) => {
+  const db = await database();
+  if (db) await put(db, STORE, entry);
+  submissions.set(entry.id, entry);
+  notify();
+};
+
+const drop = async (id: string) => {
+  const db = await database();
+  if (db) await remove(db, STORE, id);
+  submissions.delete(id);
+  notify();
+};
+
+// Oldest first, which is also the order they are replayed in.
+export const getPendingSubmissions = () =>
+  Array.from(submissions.values()).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+export const subscribeToOutbox = (listener: Listener) => {
+  listeners.add(listener);
+  database();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Connection problems, server errors and rate limits are worth retrying; anything
+// else (a validation error, a missing row) will fail the same way next time.
+const isTransient = (error: unknown) =>
+  !navigator.onLine ||
+  (axios.isAxiosError(error) && (!error.response || error.response.status >= 500 || error.response.status === 429));
+
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempts - 1));
+  return delay * (0.8 + Math.random() * 0.4);
+};
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// A send whose response was lost may have landed; its call attempt on the row shows it did.
+const alreadyApplied = (current: Bank, entry: PendingSubmission) => {
+  const attempt = entry.changes.callHistory ? entry.changes.callHistory.at(-1) : undefined;
+  return !!attempt && !!current.callHistory?.some(existing => existing.at === attempt.at && existing.caller === attempt.caller);
+};
+
+const send = async (repository: BankRepository, entry: PendingSubmission, { force = false } = {}) => {
+  const current = await repository.get(entry.bankId);
+  if (alreadyApplied(current, entry)) return;
+  if (!force && (current.claimToken !== entry.claimToken || (current.claimVersion ?? 0) !== entry.claimVersion)) {
+    throw new SubmissionConflictError(entry.bankId);
+  }
+  await repository.update(entry.bankId, entry.changes);
+};
+
+// Sends one entry and records the outcome. Returns false when the connection is still down.
+const attempt = async (repository: BankRepository, entry: PendingSubmission, options?: { force?: boolean }) => {
+  try {
+    await send(repository, entry, options);
+    await drop(entry.id);
+    return true;
+  } catch (error) {
+    const attempts = entry.attempts + 1;
+    if (error instanceof SubmissionConflictError) {
+      await save({ ...entry, attempts, status: 'conflict', lastError: error.message });
+    } else if (isTransient(error)) {
+      await save({ ...entry, attempts, lastError: messageOf(error), nextAttemptAt: new Date(Date.now() + retryDelay(attempts)).toISOString() });
+      return false;
+    } else {
+      await save({ ...entry, attempts, status: 'rejected', lastError: messageOf(error) });
+    }
+    return true;
+  }
+};
+
+const replay = async (repository: BankRepository, force: boolean) => {
+  await database();
+  for (const entry of getPendingSubmissions()) {
+    if (entry.status !== 'pending') continue;
+    if (inFlight.has(entry.id)) break;
+    if (!force && Date.parse(entry.nextAttemptAt) > Date.now()) break;
+    if (!(await attempt(repository, entry))) break;
+  }
+};
+
+let flushing: { done: Promise<void>; force: boolean } | null = null;
+
+// Replays due submissions oldest first. It stops at the first one that fails to get
+// through, so later calls never overtake earlier ones. `force` ignores back-off.
+// Calls made during a flush share it, except that a forced call made during an
+// unforced flush gets a forced pass of its own once that flush is done.
+export const flushOutbox = (repository: BankRepository, { force = false } = {}): Promise<void> => {
+  if (flushing && (flushing.force || !force)) return flushing.done;
+  const run = () => replay(repository, force);
+  const current = {
+    force,
+    done: (flushing?.done ?? Promise.resolve()).then(run, run).finally(() => {
+      if (flushing === current) flushing = null;
+    }),
+  };
+  flushing = current;
+  return current.done;
+};
+
+export type SubmitResult = 'sent' | 'queued';
+
+// Persists the submission, then tries to send it straight away. Resolves 'queued' when
+// it will be retried in the background, including when earlier submissions are still
+// stuck ahead of it. Errors that a retry cannot fix are thrown, and the submission is
+// dropped so the caller can correct the form.
+export const submitThroughOutbox = async (
+  repository: BankRepository,
+  bank: Bank,
+  changes: BankChanges,
+  label = `${bank.bankName} - ${bank.branchName}`
+): Promise<SubmitResult> => {
+  const now = new Date().toISOString();
+  const entry: PendingSubmission = {
+    id: crypto.randomUUID(),
+    bankId: bank.id,
+    label,
+    changes,
+    claimToken: bank.claimToken,
+    claimVersion: bank.claimVersion ?? 0,
+    queuedAt: now,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  inFlight.add(entry.id);
+  try {
+    await save(entry);
+
+    // Earlier submissions still waiting go first. If any of them can't get through
+    // yet, this one waits behind them and is sent by the background sync.
+    const waitingBefore = () => getPendingSubmissions().some(other => other.status === 'pending' && other.id !== entry.id);
+    if (waitingBefore()) {
+      await flushOutbox(repository, { force: true });
+      if (waitingBefore()) return 'queued';
+    }
+
+    try {
+      await send(repository, entry);
+      await drop(entry.id);
+      return 'sent';
+    } catch (error) {
+      if (isTransient(error)) {
+        await save({ ...entry, attempts: 1, lastError: messageOf(error), nextAttemptAt: new Date(Date.now() + retryDelay(1)).toISOString() });
+        return 'queued';
+      }
+      await drop(entry.id);
+      throw error;
+    }
+  } finally {
+    inFlight.delete(entry.id);
+  }
+};
+
+// Sends a conflicting submission anyway, overwriting whatever changed on the row.
+export const overwriteWithSubmission = async (repository: BankRepository, id: string) => {
+  const entry = submissions.get(id);
+  if (entry) await attempt(repository, { ...entry, status: 'pending' }, { force: true });
+};
+
+export const discardSubmission = (id: string) => drop(id);
+
+// Retries when the browser comes back online and whenever the next entry is due.
+// Returns a cleanup function for use in an effect.
+export const startOutboxSync = (repository: BankRepository) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    const next = getPendingSubmissions().find(entry => entry.status === 'pending');
+    if (!next) return;
+    timer = setTimeout(() => flushOutbox(repository).then(schedule), Math.max(0, Date.parse(next.nextAttemptAt) - Date.now()));
+  };
+  const handleOnline = () => flushOutbox(repository, { force: true }).then(schedule);
+
+  window.addEventListener('online', handleOnline);
+  const unsubscribe = subscribeToOutbox(schedule);
+  flushOutbox(repository).then(schedule);
+
+  return () => {
+    clearTimeout(timer);
+    window.removeEventListener('online', handleOnline);
+    unsubscribe();
+  };
+};
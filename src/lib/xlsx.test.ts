@@ -0,0 +1,33 @@
+// @vitest-environment jsdom
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { readXlsxRows } from './xlsx';
+
+const NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+// A workbook with only a first sheet and shared strings, the parts the reader needs.
+const workbook = (rows: string, strings: string[] = []) =>
+  zipSync({
+    'xl/sharedStrings.xml': strToU8(`<sst xmlns="${NS}">${strings.map(text => `<si><t>${text}</t></si>`).join('')}</sst>`),
+    'xl/worksheets/sheet1.xml': strToU8(`<worksheet xmlns="${NS}"><sheetData>${rows}</sheetData></worksheet>`),
+  }).buffer as ArrayBuffer;
+
+describe('readXlsxRows', () => {
+  it('reads shared, inline, numeric and boolean cells', () => {
+    const data = workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>Lucknow</t></is></c><c r="C1"><v>45500</v></c><c r="D1" t="b"><v>1</v></c></row>',
+      ['UFI']
+    );
+
+    expect(readXlsxRows(data)).toEqual([['UFI', 'Lucknow', '45500', 'TRUE']]);
+  });
+
+  it('places rows and cells by their reference, leaving gaps for the blank ones', () => {
+    const data = workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c></row><row r="4"><c r="C4" t="s"><v>1</v></c></row><row><c r="A5"><v>5</v></c></row>',
+      ['header', 'third column']
+    );
+
+    expect(readXlsxRows(data)).toEqual([['header'], [], [], ['', '', 'third column'], ['5']]);
+  });
+});
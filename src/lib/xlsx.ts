@@ -0,0 +1,69 @@
+import { strFromU8, unzipSync } from 'fflate';
+
+// Minimal reader for the first worksheet of an .xlsx file (Office Open XML), which is
+// all branch master lists need: cell text and numbers, no formulas or formatting.
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const parseXml = (files: Record<string, Uint8Array>, path: string) => {
+  const file = files[path];
+  return file ? new DOMParser().parseFromString(strFromU8(file), 'application/xml') : undefined;
+};
+
+const elements = (parent: Document | Element, name: string) =>
+  Array.from(parent.getElementsByTagNameNS(SPREADSHEET_NS, name));
+
+// "AB12" -> 27 (zero-based column index).
+const columnIndex = (reference: string) =>
+  reference
+    .replace(/\d+$/, '')
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const textOf = (element: Element) => elements(element, 't').map(t => t.textContent ?? '').join('');
+
+// Path of the first sheet in workbook order, following the workbook relationships.
+const firstSheetPath = (files: Record<string, Uint8Array>) => {
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  const relationships = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  const sheet = workbook && elements(workbook, 'sheet')[0];
+  const relationshipId = sheet?.getAttributeNS(RELATIONSHIP_NS, 'id');
+  const target = relationships && Array.from(relationships.getElementsByTagName('Relationship'))
+    .find(relationship => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+export const readXlsxRows = (data: ArrayBuffer): string[][] => {
+  const files = unzipSync(new Uint8Array(data));
+  const sharedStrings = parseXml(files, 'xl/sharedStrings.xml');
+  const strings = sharedStrings ? elements(sharedStrings, 'si').map(textOf) : [];
+  const sheet = parseXml(files, firstSheetPath(files));
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  // Rows are placed by their number, as blank rows are left out of the sheet entirely.
+  const rows: string[][] = [];
+  elements(sheet, 'row').forEach(row => {
+    const number = Number(row.getAttribute('r'));
+    const rowIndex = number > 0 ? number - 1 : rows.length;
+    const cells: string[] = [];
+    elements(row, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') text = strings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textOf(cell);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+      while (cells.length < index) cells.push('');
+      cells[index] = text;
+    });
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = cells;
+  });
+  return rows;
+};
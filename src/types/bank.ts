@@ -1,18 +1,159 @@
-export interface Bank {
-  ufi: number;
-  bankName: string;
-  ifscCode: string;
-  branchName: string;
-  address: string;
-  updateAddress?: string;
-  updatedBranchName?: string;
-  userName?: string;
-  phoneNumber?: string;
-  response?: 'address_change' | 'name_change' | 'name_and_address_change';
-  remarks?: string;
-  id: number;
-}
-
-export interface BankResponse {
-  banks: Bank[];
-} 
\ No newline at end of file
+import { z } from 'zod';
+
+// The bank record schema is the single source of truth: the `Bank` type is
+// derived from it, and every row read from or written to a backend is checked against it.
+
+export const PHONE_RESPONSES = [
+  'toll_free',
+  'registered_only',
+  'invalid_number',
+  'no_response',
+  'switched_off',
+  'number_not_found',
+] as const;
+
+export const RESPONSE_TYPES = [
+  'address_change',
+  'branch_name_change',
+  'no_change_in_address',
+  'bank_shift',
+] as const;
+
+// Where a branch response came from.
+export const RESPONSE_SOURCES = ['branch_self_service'] as const;
+
+// Sheets hand back empty cells as '', and clearing a cell means writing ''.
+const blankToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+const optionalString = z.preprocess(blankToUndefined, z.string().optional());
+
+const optionalTimestamp = z.preprocess(
+  blankToUndefined,
+  z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Must be a valid date').optional()
+);
+
+const optionalCount = z.preprocess(blankToUndefined, z.coerce.number().int().nonnegative().optional());
+
+const requiredText = z.string().trim().min(1, 'Required');
+
+// Sheets keep structured columns as JSON text in a single cell.
+const parseJsonCell = (value: unknown) => {
+  if (typeof value !== 'string') return blankToUndefined(value);
+  if (value === '') return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+export const callAttemptSchema = z.object({
+  caller: requiredText,
+  at: z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Must be a valid date'),
+  phoneNumber: z.string().optional(),
+  outcome: z.enum(PHONE_RESPONSES),
+  remarks: z.string().optional(),
+});
+
+export const addressPartsSchema = z.object({
+  line: z.string(),
+  locality: z.string().optional(),
+  city: z.string(),
+  district: z.string().optional(),
+  state: z.string(),
+  pinCode: z.string().regex(/^[1-9]\d{5}$/, 'Must be a 6-digit PIN code'),
+});
+
+// What the branch itself told us, e.g. through the QR link on the letter.
+export const branchResponseSchema = z.object({
+  source: z.enum(RESPONSE_SOURCES),
+  submittedAt: z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Must be a valid date'),
+  respondentName: requiredText,
+  contactNumber: z.string(),
+  addressConfirmed: z.boolean(),
+  // Set only when the branch corrected the address.
+  address: z.string().optional(),
+  addressParts: addressPartsSchema.optional(),
+  branchName: requiredText,
+  ifscCode: requiredText,
+});
+
+export const RECONCILED_FIELDS = ['address', 'branchName', 'ifscCode', 'phoneNumber'] as const;
+
+// A reviewer's ruling on one field where the caller and the branch disagreed.
+export const reconciliationDecisionSchema = z.object({
+  field: z.enum(RECONCILED_FIELDS),
+  choice: z.enum(['caller', 'branch', 'edited']),
+  callerValue: z.string(),
+  branchValue: z.string(),
+  value: z.string(),
+  reviewer: requiredText,
+  at: z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Must be a valid date'),
+});
+
+export const bankSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  ufi: z.coerce.number().int().positive(),
+  bankName: requiredText,
+  ifscCode: requiredText,
+  branchName: requiredText,
+  address: requiredText,
+  updateAddress: optionalString,
+  // The structured form of `updateAddress`, which holds it formatted as one line.
+  updateAddressParts: z.preprocess(parseJsonCell, addressPartsSchema.optional()),
+  // How close `updateAddress` is to `address`, from 0 (nothing in common) to 1 (the same words).
+  addressSimilarity: z.preprocess(blankToUndefined, z.coerce.number().min(0).max(1).optional()),
+  latitude: z.preprocess(blankToUndefined, z.coerce.number().min(-90).max(90).optional()),
+  longitude: z.preprocess(blankToUndefined, z.coerce.number().min(-180).max(180).optional()),
+  updatedBranchName: optionalString,
+  correctedIfsc: optionalString,
+  userName: optionalString,
+  claimToken: optionalString,
+  claimVersion: optionalCount,
+  claimedAt: optionalTimestamp,
+  leaseSeconds: optionalCount,
+  phoneNumber: optionalString,
+  phoneResponse: z.preprocess(blankToUndefined, z.enum(PHONE_RESPONSES).optional()),
+  response: z.preprocess(blankToUndefined, z.enum(RESPONSE_TYPES).optional()),
+  remarks: optionalString,
+  verifiedAt: optionalTimestamp,
+  // Login id of the signed-in caller who finished the bank; `userName` holds the claimer.
+  verifiedBy: optionalString,
+  // One entry per call made to the branch, oldest first.
+  callHistory: z.preprocess(parseJsonCell, z.array(callAttemptSchema).optional()),
+  // The bank stays out of the queue until then.
+  nextCallAt: optionalTimestamp,
+  // Set when a caller booked the callback, rather than it being an automatic retry.
+  callbackBy: optionalString,
+  letterDeadline: optionalTimestamp,
+  // The latest response from the branch; a new one replaces it.
+  branchResponse: z.preprocess(parseJsonCell, branchResponseSchema.optional()),
+  // Every reconciliation decision made on the bank, oldest first.
+  reconciliationLog: z.preprocess(parseJsonCell, z.array(reconciliationDecisionSchema).optional()),
+  // Set on a second listing of the same branch; it points at the bank that is kept and is never called.
+  duplicateOf: z.preprocess(blankToUndefined, z.coerce.number().int().positive().optional()),
+  // Banks reviewed and found to be different branches, however alike they look.
+  distinctFrom: z.preprocess(parseJsonCell, z.array(z.number().int().positive()).optional()),
+});
+
+// Writes may clear a column with '', so they are checked without the id.
+export const bankChangesSchema = bankSchema.omit({ id: true }).partial();
+
+// A row to be added; the backend assigns the id.
+export const newBankSchema = bankSchema.omit({ id: true });
+
+export type Bank = z.infer<typeof bankSchema>;
+export type NewBank = z.infer<typeof newBankSchema>;
+export type PhoneResponse = (typeof PHONE_RESPONSES)[number];
+export type ResponseType = (typeof RESPONSE_TYPES)[number];
+export type CallAttempt = z.infer<typeof callAttemptSchema>;
+export type AddressParts = z.infer<typeof addressPartsSchema>;
+export type BranchResponse = z.infer<typeof branchResponseSchema>;
+export type ReconciledField = (typeof RECONCILED_FIELDS)[number];
+export type ReconciliationDecision = z.infer<typeof reconciliationDecisionSchema>;
+
+// What a write may carry: any field, with '' meaning "clear this column".
+export type BankChanges = { [K in keyof Omit<Bank, 'id'>]?: Bank[K] | '' };
+
+export const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`);
@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BANK_REPOSITORY?: string;
+  readonly VITE_SHEETY_API?: string;
+  readonly VITE_REST_API?: string;
+  readonly VITE_QUEUE_RULES?: string;
+  readonly VITE_CALLBACK_POLICY?: string;
+  readonly VITE_GEOCODER?: string;
+  readonly VITE_NOMINATIM_API?: string;
+  readonly VITE_QR_REFERENCE_API?: string;
+  readonly VITE_QR_LINK_BASE?: string;
+  readonly VITE_AUTH_PROVIDER?: string;
+  readonly VITE_AUTH_API?: string;
+  readonly VITE_LOCAL_ACCOUNTS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,92 @@
+import { pdf } from '@react-pdf/renderer';
+import { Zip, ZipDeflate, ZipPassThrough } from 'fflate';
+import { BankLetterPDF } from '../components/BankLetterPDF';
+import { generateQRCodeForBank } from '../lib/qrCode';
+import {
+  buildManifestCSV,
+  letterFileName,
+  type LetterExportEvent,
+  type LetterExportRequest,
+  type ManifestEntry,
+} from '../lib/letterExport';
+import type { Bank } from '../types/bank';
+import { DEFAULT_LETTER_SETTINGS, type LetterSettings } from '../lib/letterTemplates';
+
+let banks: Bank[] = [];
+let settings: LetterSettings = DEFAULT_LETTER_SETTINGS;
+let next = 0;
+let running = false;
+let cancelRequested = false;
+let zip: Zip | null = null;
+const manifest: ManifestEntry[] = [];
+
+// Chunks are copied rather than transferred: fflate may still hold on to their buffers.
+const post = (event: LetterExportEvent) => self.postMessage(event);
+
+const addFile = (name: string, data: Uint8Array, compress: boolean) => {
+  // PDFs are already compressed, so they are stored as-is.
+  const file = compress ? new ZipDeflate(name, { level: 6 }) : new ZipPassThrough(name);
+  zip!.add(file);
+  file.push(data, true);
+};
+
+const renderLetter = async (bank: Bank) => {
+  const qrCodeUrl = await generateQRCodeForBank(bank);
+  if (!qrCodeUrl) throw new Error('QR code could not be generated');
+  const blob = await pdf(<BankLetterPDF bank={bank} qrCodeUrl={qrCodeUrl} settings={settings} />).toBlob();
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+const failedCount = () => manifest.filter(entry => entry.status === 'failed').length;
+
+const run = async () => {
+  running = true;
+  cancelRequested = false;
+  while (next < banks.length) {
+    if (cancelRequested) {
+      running = false;
+      post({ type: 'cancelled', done: next });
+      return;
+    }
+    const bank = banks[next];
+    const fileName = letterFileName(bank);
+    try {
+      addFile(fileName, await renderLetter(bank), false);
+      manifest.push({ fileName, bank, status: 'ok' });
+    } catch (error) {
+      manifest.push({ fileName, bank, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+    next++;
+    post({ type: 'progress', done: next, total: banks.length, failed: failedCount() });
+  }
+
+  addFile('manifest.csv', new TextEncoder().encode(buildManifestCSV(manifest)), true);
+  zip!.end();
+  running = false;
+  post({ type: 'complete', done: next, failed: failedCount() });
+};
+
+self.onmessage = ({ data: request }: MessageEvent<LetterExportRequest>) => {
+  switch (request.type) {
+    case 'start':
+      banks = request.banks;
+      settings = request.settings;
+      zip = new Zip((error, data) => {
+        if (error) {
+          post({ type: 'error', message: error.message });
+          return;
+        }
+        post({ type: 'chunk', data });
+      });
+      run().catch(error => post({ type: 'error', message: String(error) }));
+      break;
+    case 'cancel':
+      cancelRequested = true;
+      break;
+    case 'resume':
+      if (!running && zip) {
+        run().catch(error => post({ type: 'error', message: String(error) }));
+      }
+      break;
+  }
+};
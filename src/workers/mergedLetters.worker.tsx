@@ -0,0 +1,31 @@
+import { pdf } from '@react-pdf/renderer';
+import { MergedLettersPDF } from '../components/MergedLettersPDF';
+import { generateQRCodeForBank } from '../lib/qrCode';
+import {
+  MERGE_ORDER_LABELS,
+  sortBanksForMerge,
+  type MergedLetter,
+  type MergedLettersEvent,
+  type MergedLettersRequest,
+} from '../lib/mergedLetters';
+
+const post = (event: MergedLettersEvent) => self.postMessage(event);
+
+const build = async ({ banks, order, settings }: MergedLettersRequest) => {
+  const sorted = sortBanksForMerge(banks, order);
+  const letters: MergedLetter[] = [];
+  for (const bank of sorted) {
+    const qrCodeUrl = await generateQRCodeForBank(bank);
+    if (!qrCodeUrl) throw new Error(`QR code could not be generated for UFI ${bank.ufi}`);
+    letters.push({ bank, qrCodeUrl });
+    post({ type: 'progress', done: letters.length, total: sorted.length });
+  }
+
+  post({ type: 'rendering' });
+  const blob = await pdf(<MergedLettersPDF letters={letters} settings={settings} orderLabel={MERGE_ORDER_LABELS[order].toLowerCase()} />).toBlob();
+  post({ type: 'complete', pdf: blob });
+};
+
+self.onmessage = ({ data }: MessageEvent<MergedLettersRequest>) => {
+  build(data).catch(error => post({ type: 'error', message: error instanceof Error ? error.message : String(error) }));
+};